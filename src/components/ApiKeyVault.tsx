@@ -0,0 +1,252 @@
+import React, { useState } from 'react';
+import { useVault } from '@/context/VaultContext';
+import { maskKey, VaultKey } from '@/services/keyVault';
+import { testProviderKey } from '@/services/translationService';
+import { PROVIDERS, getDefaultProviderSettings, getProvider, ProviderId, ProviderSettings } from '@/services/providers';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { CheckCircle2, AlertCircle, Loader2, Lock, Plus, Trash2, Unlock, Zap } from 'lucide-react';
+
+interface ApiKeyVaultProps {
+  // Current job settings, so keys for a custom endpoint are tested against it
+  providerSettings: ProviderSettings;
+}
+
+const ApiKeyVault: React.FC<ApiKeyVaultProps> = ({ providerSettings }) => {
+  const { status, keys, create, unlock, lock, reset, addKey, updateKey, removeKey } = useVault();
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [newProviderId, setNewProviderId] = useState<ProviderId>(providerSettings.providerId);
+  const [newLabel, setNewLabel] = useState('');
+  const [newKey, setNewKey] = useState('');
+  const [testingId, setTestingId] = useState<string | null>(null);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (passphrase.length < 8) {
+      toast.error('Use a passphrase of at least 8 characters');
+      return;
+    }
+    if (passphrase !== confirmPassphrase) {
+      toast.error('Passphrases do not match');
+      return;
+    }
+
+    try {
+      setIsBusy(true);
+      await create(passphrase);
+      setPassphrase('');
+      setConfirmPassphrase('');
+    } catch (error) {
+      console.error('Failed to create key vault:', error);
+      toast.error('Failed to create key vault');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setIsBusy(true);
+      await unlock(passphrase);
+      setPassphrase('');
+      toast.success('Key vault unlocked');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to unlock key vault');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newKey.trim()) {
+      toast.error('Enter an API key');
+      return;
+    }
+
+    try {
+      await addKey({
+        providerId: newProviderId,
+        label: newLabel.trim() || `${getProvider(newProviderId).name} key`,
+        key: newKey.trim(),
+      });
+      setNewLabel('');
+      setNewKey('');
+      toast.success('API key added');
+    } catch (error) {
+      console.error('Failed to add API key:', error);
+      toast.error('Failed to add API key');
+    }
+  };
+
+  const handleTest = async (vaultKey: VaultKey) => {
+    const settings = providerSettings.providerId === vaultKey.providerId
+      ? providerSettings
+      : getDefaultProviderSettings(vaultKey.providerId);
+
+    setTestingId(vaultKey.id);
+    try {
+      await testProviderKey(settings, vaultKey.key);
+      await updateKey(vaultKey.id, { lastTestedAt: new Date().toISOString(), lastTestOk: true });
+      toast.success(`${vaultKey.label} works`);
+    } catch (error) {
+      console.error('API key test failed:', error);
+      await updateKey(vaultKey.id, { lastTestedAt: new Date().toISOString(), lastTestOk: false });
+      toast.error(`${vaultKey.label} failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setTestingId(null);
+    }
+  };
+
+  const handleReset = () => {
+    if (window.confirm('Delete the key vault and all stored keys? This cannot be undone.')) {
+      reset();
+    }
+  };
+
+  if (status === 'missing') {
+    return (
+      <form onSubmit={handleCreate} className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          API keys are stored in this browser, encrypted with a passphrase that never leaves your device.
+          Create a vault to get started.
+        </p>
+        <div className="space-y-2">
+          <Label htmlFor="vault-passphrase">Passphrase</Label>
+          <Input
+            id="vault-passphrase"
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            required
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="vault-passphrase-confirm">Confirm passphrase</Label>
+          <Input
+            id="vault-passphrase-confirm"
+            type="password"
+            value={confirmPassphrase}
+            onChange={(e) => setConfirmPassphrase(e.target.value)}
+            required
+          />
+        </div>
+        <Button type="submit" disabled={isBusy} className="w-full">
+          {isBusy ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Create Vault'}
+        </Button>
+      </form>
+    );
+  }
+
+  if (status === 'locked') {
+    return (
+      <form onSubmit={handleUnlock} className="space-y-4">
+        <p className="text-sm text-muted-foreground">Enter your passphrase to unlock your API keys.</p>
+        <div className="space-y-2">
+          <Label htmlFor="vault-unlock">Passphrase</Label>
+          <Input
+            id="vault-unlock"
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            required
+          />
+        </div>
+        <div className="flex gap-2">
+          <Button type="submit" disabled={isBusy} className="flex-1 flex items-center gap-2">
+            {isBusy ? <Loader2 className="h-4 w-4 animate-spin" /> : <Unlock className="h-4 w-4" />}
+            Unlock
+          </Button>
+          <Button type="button" variant="outline" onClick={handleReset}>
+            Reset Vault
+          </Button>
+        </div>
+      </form>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        {keys.length === 0 ? (
+          <div className="text-center py-6 text-sm text-muted-foreground">No API keys stored yet</div>
+        ) : (
+          keys.map((vaultKey) => (
+            <div key={vaultKey.id} className="flex items-center gap-3 p-3 rounded-md border">
+              <div className="flex-1 min-w-0">
+                <div className="font-medium truncate flex items-center gap-2">
+                  {vaultKey.label}
+                  {vaultKey.lastTestOk === true && <CheckCircle2 className="h-4 w-4 text-green-600" />}
+                  {vaultKey.lastTestOk === false && <AlertCircle className="h-4 w-4 text-red-600" />}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {getProvider(vaultKey.providerId).name} · {maskKey(vaultKey.key)}
+                </div>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleTest(vaultKey)}
+                disabled={testingId !== null}
+                className="flex items-center gap-1"
+              >
+                {testingId === vaultKey.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Zap className="h-4 w-4" />}
+                Test
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => removeKey(vaultKey.id)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))
+        )}
+      </div>
+
+      <form onSubmit={handleAdd} className="space-y-3 border-t pt-4">
+        <h4 className="text-sm font-medium">Add API key</h4>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <Select value={newProviderId} onValueChange={(id) => setNewProviderId(id as ProviderId)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PROVIDERS.map((p) => (
+                <SelectItem key={p.id} value={p.id}>
+                  {p.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            placeholder="Label (e.g. Team quota)"
+            value={newLabel}
+            onChange={(e) => setNewLabel(e.target.value)}
+          />
+        </div>
+        <Input
+          type="password"
+          placeholder="API key"
+          value={newKey}
+          onChange={(e) => setNewKey(e.target.value)}
+        />
+        <div className="flex gap-2">
+          <Button type="submit" className="flex-1 flex items-center gap-2">
+            <Plus className="h-4 w-4" />
+            Add Key
+          </Button>
+          <Button type="button" variant="outline" onClick={lock} className="flex items-center gap-2">
+            <Lock className="h-4 w-4" />
+            Lock
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default ApiKeyVault;
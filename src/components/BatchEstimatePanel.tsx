@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { BatchEstimate, batchCellKey, planCost } from '@/services/batchEstimate';
+import { formatCost } from '@/services/costEstimation';
+import { useLocales } from '@/context/LocaleContext';
+import { Post } from '@/context/WordPressContext';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Calculator, ChevronDown, ChevronUp, Loader2 } from 'lucide-react';
+
+interface BatchEstimatePanelProps {
+  estimate: BatchEstimate | null;
+  isEstimating: boolean;
+  posts: Post[];
+  languages: string[];
+}
+
+const BatchEstimatePanel: React.FC<BatchEstimatePanelProps> = ({ estimate, isEstimating, posts, languages }) => {
+  const { getLocale } = useLocales();
+  const [showDetails, setShowDetails] = useState(false);
+
+  if (!estimate) {
+    return isEstimating ? (
+      <div className="flex items-center gap-2 text-xs text-muted-foreground px-1">
+        <Loader2 className="h-3 w-3 animate-spin" />
+        Estimating requests and cost...
+      </div>
+    ) : null;
+  }
+
+  const { total, pricing } = estimate;
+  const tokens = total.usage.inputTokens + total.usage.outputTokens;
+
+  return (
+    <div className="rounded-md border p-3 space-y-2 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <span className="flex items-center gap-1 font-medium">
+          <Calculator className="h-4 w-4" />
+          Estimate
+          {isEstimating && <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" />}
+        </span>
+        <span className="font-medium">{formatCost(planCost(total, pricing))}</span>
+      </div>
+      <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs text-muted-foreground">
+        <span>Requests</span>
+        <span className="text-right">{total.usage.requests.toLocaleString()}</span>
+        <span>Characters sent</span>
+        <span className="text-right">{total.usage.characters.toLocaleString()}</span>
+        {tokens > 0 && (
+          <>
+            <span>Tokens (in / out)</span>
+            <span className="text-right">
+              ~{total.usage.inputTokens.toLocaleString()} / {total.usage.outputTokens.toLocaleString()}
+            </span>
+          </>
+        )}
+        <span>Translation memory</span>
+        <span className="text-right">{total.memoryHits} of {total.memoryHits + total.memoryMisses} segments</span>
+      </div>
+      {!pricing && (
+        <p className="text-xs text-muted-foreground">No price list for this model, so the cost can't be estimated.</p>
+      )}
+      <p className="text-xs text-muted-foreground">Retries and quality checks are not included.</p>
+
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => setShowDetails(!showDetails)}
+        className="h-7 px-2 flex items-center gap-1"
+      >
+        {showDetails ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+        Per post and language
+      </Button>
+      {showDetails && (
+        <div className="max-h-60 overflow-auto border rounded-md">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Post</TableHead>
+                <TableHead>Language</TableHead>
+                <TableHead className="text-right">Chars</TableHead>
+                <TableHead className="text-right">Tokens</TableHead>
+                <TableHead className="text-right">Req.</TableHead>
+                <TableHead className="text-right">Memory</TableHead>
+                <TableHead className="text-right">Cost</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {posts.flatMap(post => languages.map(language => {
+                const plan = estimate.cells[batchCellKey(post.id, language)];
+                return (
+                  <TableRow key={batchCellKey(post.id, language)} className="text-xs">
+                    <TableCell className="max-w-[120px] truncate">{post.title}</TableCell>
+                    <TableCell className="whitespace-nowrap">{getLocale(language).name}</TableCell>
+                    {plan ? (
+                      <>
+                        <TableCell className="text-right">{plan.usage.characters.toLocaleString()}</TableCell>
+                        <TableCell className="text-right">{(plan.usage.inputTokens + plan.usage.outputTokens).toLocaleString()}</TableCell>
+                        <TableCell className="text-right">{plan.usage.requests}</TableCell>
+                        <TableCell className="text-right">{plan.memoryHits}</TableCell>
+                        <TableCell className="text-right">{formatCost(planCost(plan, pricing))}</TableCell>
+                      </>
+                    ) : (
+                      <TableCell colSpan={5} className="text-center text-muted-foreground">skipped, already in this language</TableCell>
+                    )}
+                  </TableRow>
+                );
+              }))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BatchEstimatePanel;
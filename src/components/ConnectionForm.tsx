@@ -1,6 +1,8 @@
 import React, { useState } from 'react';
 import { useWordPress, Post } from '@/context/WordPressContext';
 import { testConnection, fetchPosts, validateSiteUrl } from '@/services/wordpressService';
+import { detectHtmlLanguage } from '@/services/languageDetection';
+import { readSeoMeta } from '@/services/seoFields';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
@@ -33,16 +35,23 @@ const ConnectionForm: React.FC = () => {
         const wpPosts = await fetchPosts(credentials);
         
         // Transform posts to match our context format
-        const posts: Post[] = wpPosts.map(post => ({
-          id: post.id,
-          title: typeof post.title === 'string' ? post.title : post.title.rendered,
-          content: typeof post.content === 'string' ? post.content : post.content.rendered,
-          excerpt: typeof post.excerpt === 'string' ? post.excerpt : post.excerpt.rendered,
-          slug: post.slug,
-          date: post.date,
-          link: post.link,
-          selected: false
-        }));
+        const posts: Post[] = wpPosts.map(post => {
+          const title = typeof post.title === 'string' ? post.title : post.title.raw ?? post.title.rendered;
+          const content = typeof post.content === 'string' ? post.content : post.content.raw ?? post.content.rendered;
+          return {
+            id: post.id,
+            title,
+            content,
+            excerpt: typeof post.excerpt === 'string' ? post.excerpt : post.excerpt.rendered,
+            manualExcerpt: typeof post.excerpt === 'string' ? '' : post.excerpt.raw ?? '',
+            seo: readSeoMeta(post.meta),
+            slug: post.slug,
+            date: post.date,
+            link: post.link,
+            selected: false,
+            language: detectHtmlLanguage(`<h1>${title}</h1>\n${content}`)
+          };
+        });
         
         // Update context
         setCredentials(credentials);
@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import {
+  DEFAULT_EXCLUSION_RULES,
+  ExclusionRules,
+  loadExclusionRules,
+  resetExclusionRules,
+  saveExclusionRules,
+} from '@/services/exclusionRules';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Plus, RotateCcw, X } from 'lucide-react';
+
+const ExclusionRulesEditor: React.FC = () => {
+  const [rules, setRules] = useState<ExclusionRules>(loadExclusionRules);
+  const [tag, setTag] = useState('');
+  const [className, setClassName] = useState('');
+
+  const update = (next: ExclusionRules) => {
+    setRules(next);
+    saveExclusionRules(next);
+  };
+
+  const addTo = (list: 'tags' | 'classes', value: string) => {
+    if (!value || rules[list].includes(value)) return;
+    update({ ...rules, [list]: [...rules[list], value] });
+  };
+
+  const handleAddTag = (e: React.FormEvent) => {
+    e.preventDefault();
+    // Tag names are matched in lower case, like the parser stores them
+    addTo('tags', tag.trim().replace(/^<|>$/g, '').toLowerCase());
+    setTag('');
+  };
+
+  const handleAddClass = (e: React.FormEvent) => {
+    e.preventDefault();
+    addTo('classes', className.trim().replace(/^\./, ''));
+    setClassName('');
+  };
+
+  const handleReset = () => {
+    resetExclusionRules();
+    setRules(DEFAULT_EXCLUSION_RULES);
+  };
+
+  const renderList = (list: 'tags' | 'classes', format: (value: string) => string) => (
+    <div className="flex flex-wrap gap-2">
+      {rules[list].map((value) => (
+        <Badge key={value} variant="secondary" className="flex items-center gap-1">
+          {format(value)}
+          <button
+            onClick={() => update({ ...rules, [list]: rules[list].filter(v => v !== value) })}
+            className="hover:text-foreground"
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </Badge>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-muted-foreground">
+        Excluded parts of a post are published exactly as written and never sent to the translation service.
+        Scripts, styles, embeds and elements with <code>translate="no"</code> are always excluded.
+      </p>
+
+      <div className="space-y-3">
+        <h4 className="text-sm font-medium">Elements</h4>
+        <form onSubmit={handleAddTag} className="flex gap-2">
+          <Input placeholder="Tag, e.g. pre" value={tag} onChange={(e) => setTag(e.target.value)} />
+          <Button type="submit" size="icon">
+            <Plus className="h-4 w-4" />
+          </Button>
+        </form>
+        {renderList('tags', value => `<${value}>`)}
+      </div>
+
+      <div className="space-y-3">
+        <h4 className="text-sm font-medium">CSS classes</h4>
+        <form onSubmit={handleAddClass} className="flex gap-2">
+          <Input placeholder="Class, e.g. notranslate" value={className} onChange={(e) => setClassName(e.target.value)} />
+          <Button type="submit" size="icon">
+            <Plus className="h-4 w-4" />
+          </Button>
+        </form>
+        {renderList('classes', value => `.${value}`)}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="exclusion-marker">Comment marker</Label>
+        <Input
+          id="exclusion-marker"
+          value={rules.marker}
+          onChange={(e) => update({ ...rules, marker: e.target.value.trim() })}
+        />
+        <p className="text-xs text-muted-foreground">
+          {rules.marker
+            ? <>Everything between <code>{`<!-- ${rules.marker} -->`}</code> and <code>{`<!-- /${rules.marker} -->`}</code> is excluded.</>
+            : 'Leave empty to turn comment markers off.'}
+        </p>
+      </div>
+
+      <div className="border-t pt-4">
+        <Button variant="outline" size="sm" onClick={handleReset} className="flex items-center gap-1">
+          <RotateCcw className="h-4 w-4" />
+          Restore default exclusions
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ExclusionRulesEditor;
@@ -0,0 +1,211 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useWordPress } from '@/context/WordPressContext';
+import {
+  Glossary,
+  glossaryFromCsv,
+  glossaryFromTbx,
+  glossaryToCsv,
+  glossaryToTbx,
+  loadGlossary,
+  saveGlossary,
+} from '@/services/glossaryService';
+import { useLocales } from '@/context/LocaleContext';
+import { downloadTextFile } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { Download, Plus, Trash2, Upload, X } from 'lucide-react';
+
+const GlossaryManager: React.FC = () => {
+  const { credentials } = useWordPress();
+  const { locales, getLocale } = useLocales();
+  const [glossary, setGlossary] = useState<Glossary | null>(null);
+  const [language, setLanguage] = useState(locales[0].tag);
+  const [source, setSource] = useState('');
+  const [target, setTarget] = useState('');
+  const [keepTerm, setKeepTerm] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setGlossary(credentials ? loadGlossary(credentials.siteUrl) : null);
+  }, [credentials]);
+
+  if (!credentials || !glossary) {
+    return (
+      <div className="text-center py-6 text-sm text-muted-foreground">
+        Connect to a WordPress site to manage its glossary
+      </div>
+    );
+  }
+
+  const update = (next: Glossary) => {
+    setGlossary(next);
+    saveGlossary(next);
+  };
+
+  const handleAddTerm = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!source.trim() || !target.trim()) return;
+
+    update({
+      ...glossary,
+      entries: [
+        ...glossary.entries,
+        { id: crypto.randomUUID(), source: source.trim(), target: target.trim(), language },
+      ],
+    });
+    setSource('');
+    setTarget('');
+  };
+
+  const handleAddKeepTerm = (e: React.FormEvent) => {
+    e.preventDefault();
+    const term = keepTerm.trim();
+    if (!term || glossary.doNotTranslate.includes(term)) return;
+
+    update({ ...glossary, doNotTranslate: [...glossary.doNotTranslate, term] });
+    setKeepTerm('');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const text = await file.text();
+      const imported = /\.(tbx|xml)$/i.test(file.name)
+        ? glossaryFromTbx(text, glossary.siteUrl)
+        : glossaryFromCsv(text, glossary.siteUrl);
+
+      // Merge into the existing glossary, skipping duplicates
+      const known = new Set(glossary.entries.map(entry => `${entry.language}\u0000${entry.source}`));
+      const entries = imported.entries.filter(entry => !known.has(`${entry.language}\u0000${entry.source}`));
+      const doNotTranslate = imported.doNotTranslate.filter(term => !glossary.doNotTranslate.includes(term));
+
+      update({
+        ...glossary,
+        entries: [...glossary.entries, ...entries],
+        doNotTranslate: [...glossary.doNotTranslate, ...doNotTranslate],
+      });
+      toast.success(`Imported ${entries.length} terms and ${doNotTranslate.length} never-translate entries`);
+    } catch (error) {
+      console.error('Glossary import failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to import glossary');
+    }
+  };
+
+  const languageName = (tag: string) => getLocale(tag).name;
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-muted-foreground">
+        Terminology for <span className="font-medium">{glossary.siteUrl}</span>
+      </p>
+
+      <div className="space-y-3">
+        <h4 className="text-sm font-medium">Forced translations</h4>
+        <form onSubmit={handleAddTerm} className="grid grid-cols-1 sm:grid-cols-[1fr_1fr_1fr_auto] gap-2">
+          <Select value={language} onValueChange={setLanguage}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {locales.map((l) => (
+                <SelectItem key={l.tag} value={l.tag}>
+                  {l.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input placeholder="Source term" value={source} onChange={(e) => setSource(e.target.value)} />
+          <Input placeholder="Translation" value={target} onChange={(e) => setTarget(e.target.value)} />
+          <Button type="submit" size="icon">
+            <Plus className="h-4 w-4" />
+          </Button>
+        </form>
+
+        {glossary.entries.length === 0 ? (
+          <div className="text-center py-4 text-sm text-muted-foreground">No terms yet</div>
+        ) : (
+          <div className="space-y-1">
+            {glossary.entries.map((entry) => (
+              <div key={entry.id} className="flex items-center gap-3 text-sm p-2 rounded-md border">
+                <span className="w-32 text-muted-foreground truncate">{languageName(entry.language)}</span>
+                <span className="flex-1 truncate">{entry.source}</span>
+                <span className="text-muted-foreground">→</span>
+                <span className="flex-1 truncate">{entry.target}</span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => update({ ...glossary, entries: glossary.entries.filter(e => e.id !== entry.id) })}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <h4 className="text-sm font-medium">Never translate</h4>
+        <form onSubmit={handleAddKeepTerm} className="flex gap-2">
+          <Input placeholder="Brand name, SKU, ..." value={keepTerm} onChange={(e) => setKeepTerm(e.target.value)} />
+          <Button type="submit" size="icon">
+            <Plus className="h-4 w-4" />
+          </Button>
+        </form>
+        <div className="flex flex-wrap gap-2">
+          {glossary.doNotTranslate.map((term) => (
+            <Badge key={term} variant="secondary" className="flex items-center gap-1">
+              {term}
+              <button
+                onClick={() => update({ ...glossary, doNotTranslate: glossary.doNotTranslate.filter(t => t !== term) })}
+                className="hover:text-foreground"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2 border-t pt-4">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,.tbx,.xml"
+          onChange={handleImport}
+          className="hidden"
+        />
+        <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} className="flex items-center gap-1">
+          <Upload className="h-4 w-4" />
+          Import CSV / TBX
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => downloadTextFile('glossary.csv', glossaryToCsv(glossary), 'text/csv')}
+          className="flex items-center gap-1"
+        >
+          <Download className="h-4 w-4" />
+          Export CSV
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => downloadTextFile('glossary.tbx', glossaryToTbx(glossary), 'application/x-tbx+xml')}
+          className="flex items-center gap-1"
+        >
+          <Download className="h-4 w-4" />
+          Export TBX
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default GlossaryManager;
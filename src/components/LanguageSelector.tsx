@@ -1,19 +1,36 @@
 
 import React from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Label } from '@/components/ui/label';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { motion } from 'framer-motion';
-import { LANGUAGES } from '@/services/translationService';
+import { useLocales } from '@/context/LocaleContext';
+import { useStyles } from '@/context/StyleContext';
+import { StyleProfile } from '@/services/styleProfiles';
 import { Globe } from 'lucide-react';
 
 interface LanguageSelectorProps {
-  selectedLanguage: string;
-  onLanguageChange: (language: string) => void;
+  selectedLanguages: string[];
+  onLanguagesChange: (languages: string[]) => void;
+  // Style profile of each selected language for this job
+  styles: Record<string, StyleProfile>;
+  onStyleChange: (language: string, profileId: string) => void;
 }
 
-const LanguageSelector: React.FC<LanguageSelectorProps> = ({ selectedLanguage, onLanguageChange }) => {
+const LanguageSelector: React.FC<LanguageSelectorProps> = ({ selectedLanguages, onLanguagesChange, styles, onStyleChange }) => {
+  const { locales } = useLocales();
+  const { profiles } = useStyles();
+
+  // Keep the catalog order so the job matrix columns are stable
+  const toggleLanguage = (code: string) => {
+    const next = selectedLanguages.includes(code)
+      ? selectedLanguages.filter(c => c !== code)
+      : [...selectedLanguages, code];
+    onLanguagesChange(locales.map(l => l.tag).filter(tag => next.includes(tag)));
+  };
+
   return (
     <motion.div
       initial={{ opacity: 0, y: 20 }}
@@ -25,35 +42,52 @@ const LanguageSelector: React.FC<LanguageSelectorProps> = ({ selectedLanguage, o
         <CardHeader>
           <CardTitle className="flex items-center gap-2 text-xl">
             <Globe className="h-5 w-5 text-primary/80" />
-            Translation Language
+            Translation Languages
           </CardTitle>
         </CardHeader>
         <CardContent>
           <ScrollArea className="h-[300px] pr-4">
-            <RadioGroup value={selectedLanguage} onValueChange={onLanguageChange} className="space-y-3">
-              {LANGUAGES.map((language) => (
+            <div className="space-y-3">
+              {locales.map((locale) => (
                 <div
-                  key={language.code}
+                  key={locale.tag}
                   className={`flex items-center space-x-3 rounded-md p-3 transition-all ${
-                    selectedLanguage === language.code
+                    selectedLanguages.includes(locale.tag)
                       ? 'bg-primary/10 border border-primary/40'
                       : 'hover:bg-white/30 dark:hover:bg-black/30 border border-transparent'
                   }`}
                 >
-                  <RadioGroupItem 
-                    value={language.code} 
-                    id={`language-${language.code}`} 
-                    className="data-[state=checked]:border-primary data-[state=checked]:bg-primary"
+                  <Checkbox
+                    id={`language-${locale.tag}`}
+                    checked={selectedLanguages.includes(locale.tag)}
+                    onCheckedChange={() => toggleLanguage(locale.tag)}
                   />
                   <Label
-                    htmlFor={`language-${language.code}`}
+                    htmlFor={`language-${locale.tag}`}
                     className="flex-1 cursor-pointer"
                   >
-                    {language.name}
+                    {locale.name}
                   </Label>
+                  {selectedLanguages.includes(locale.tag) && styles[locale.tag] ? (
+                    <Select
+                      value={styles[locale.tag].id}
+                      onValueChange={(profileId) => onStyleChange(locale.tag, profileId)}
+                    >
+                      <SelectTrigger className="h-7 w-32 text-xs" aria-label={`Style for ${locale.name}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {profiles.map((profile) => (
+                          <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <span className="text-xs text-muted-foreground">{locale.tag}</span>
+                  )}
                 </div>
               ))}
-            </RadioGroup>
+            </div>
           </ScrollArea>
         </CardContent>
       </Card>
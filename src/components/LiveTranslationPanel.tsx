@@ -0,0 +1,46 @@
+import React from 'react';
+import { PreparedPost } from '@/services/translationService';
+import { Locale } from '@/services/localeCatalog';
+import { Loader2 } from 'lucide-react';
+
+// Streamed translation of one post × language cell, by segment id
+export type LiveText = {
+  title: Map<number, string>;
+  body: Map<number, string>;
+};
+
+interface LiveTranslationPanelProps {
+  prepared: PreparedPost;
+  live: LiveText;
+  locale: Locale;
+  // Still receiving text; the first untranslated segment gets a spinner
+  active: boolean;
+}
+
+// Markup is shown as in the request, without its placeholders
+const readable = (text: string) => text.replace(/\{\{HTML_ELEMENT_\d+\}\}/g, '').replace(/\s+/g, ' ').trim();
+
+const LiveTranslationPanel: React.FC<LiveTranslationPanelProps> = ({ prepared, live, locale, active }) => {
+  const rows = [
+    ...prepared.title.units.map(unit => ({ key: `t${unit.id}`, source: unit.text, translation: live.title.get(unit.id), isTitle: true })),
+    ...prepared.body.units.map(unit => ({ key: `b${unit.id}`, source: unit.text, translation: live.body.get(unit.id), isTitle: false })),
+  ].filter(row => readable(row.source));
+  const firstPending = rows.findIndex(row => row.translation === undefined);
+
+  return (
+    <div className="max-h-80 overflow-y-auto border rounded-lg divide-y text-sm">
+      {rows.map((row, index) => (
+        <div key={row.key} className={`grid grid-cols-2 gap-4 p-2 ${row.isTitle ? 'font-medium' : ''}`}>
+          <p className="text-muted-foreground">{readable(row.source)}</p>
+          <p dir={locale.dir} lang={locale.tag}>
+            {row.translation !== undefined
+              ? readable(row.translation)
+              : active && index === firstPending && <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" />}
+          </p>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default LiveTranslationPanel;
@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { useLocales } from '@/context/LocaleContext';
+import { canonicalizeTag, createLocale, Locale } from '@/services/localeCatalog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { Plus, RotateCcw, Trash2 } from 'lucide-react';
+
+const LocaleCatalogEditor: React.FC = () => {
+  const { locales, addLocale, updateLocale, removeLocale, restoreDefaults } = useLocales();
+  const [tag, setTag] = useState('');
+  const [name, setName] = useState('');
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const canonical = canonicalizeTag(tag);
+    if (!canonical) {
+      toast.error(`"${tag}" is not a valid BCP-47 language tag`);
+      return;
+    }
+
+    try {
+      addLocale(createLocale(canonical, name.trim()));
+      setTag('');
+      setName('');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to add language');
+    }
+  };
+
+  const handleRemove = (locale: Locale) => {
+    if (locales.length === 1) {
+      toast.error('Keep at least one language in the catalog');
+      return;
+    }
+    removeLocale(locale.tag);
+  };
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-muted-foreground">
+        Target languages, identified by BCP-47 tags such as <code>pt-BR</code>, <code>zh-Hant</code> or <code>es-419</code>.
+        The plugin slug must match the language configured in Polylang or WPML on your site.
+      </p>
+
+      <form onSubmit={handleAdd} className="grid grid-cols-1 sm:grid-cols-[1fr_2fr_auto] gap-2">
+        <Input placeholder="Tag, e.g. fr-CA" value={tag} onChange={(e) => setTag(e.target.value)} />
+        <Input placeholder="Display name" value={name} onChange={(e) => setName(e.target.value)} />
+        <Button type="submit" size="icon" disabled={!tag.trim()}>
+          <Plus className="h-4 w-4" />
+        </Button>
+      </form>
+
+      <div className="space-y-2">
+        <div className="hidden sm:grid grid-cols-[5rem_1fr_1fr_6rem_5rem_auto] gap-2 text-xs text-muted-foreground px-2">
+          <span>Tag</span>
+          <span>Name</span>
+          <span>Prompt label</span>
+          <span>Plugin slug</span>
+          <span>Direction</span>
+          <span className="w-9" />
+        </div>
+        {locales.map((locale) => (
+          <div
+            key={locale.tag}
+            className="grid grid-cols-1 sm:grid-cols-[5rem_1fr_1fr_6rem_5rem_auto] gap-2 items-center text-sm p-2 rounded-md border"
+          >
+            <code className="truncate">{locale.tag}</code>
+            <Input
+              value={locale.name}
+              onChange={(e) => updateLocale(locale.tag, { name: e.target.value })}
+              className="h-8"
+            />
+            <Input
+              value={locale.promptLabel}
+              onChange={(e) => updateLocale(locale.tag, { promptLabel: e.target.value })}
+              className="h-8"
+            />
+            <Input
+              value={locale.pluginSlug}
+              onChange={(e) => updateLocale(locale.tag, { pluginSlug: e.target.value.trim() })}
+              className="h-8"
+            />
+            <Select
+              value={locale.dir}
+              onValueChange={(dir) => updateLocale(locale.tag, { dir: dir as Locale['dir'] })}
+            >
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="ltr">LTR</SelectItem>
+                <SelectItem value="rtl">RTL</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button variant="ghost" size="sm" onClick={() => handleRemove(locale)}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <div className="border-t pt-4">
+        <Button variant="outline" size="sm" onClick={restoreDefaults} className="flex items-center gap-1">
+          <RotateCcw className="h-4 w-4" />
+          Restore default languages
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default LocaleCatalogEditor;
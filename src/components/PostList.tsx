@@ -7,8 +7,9 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Separator } from '@/components/ui/separator';
+import { Badge } from '@/components/ui/badge';
 import { motion } from 'framer-motion';
-import { CheckCheck, Filter, Search, X } from 'lucide-react';
+import { CheckCheck, Filter, Languages, Search, X } from 'lucide-react';
 
 const PostList: React.FC = () => {
   const { posts, togglePostSelection, selectedPosts, selectAllPosts, unselectAllPosts } = useWordPress();
@@ -117,8 +118,18 @@ const PostList: React.FC = () => {
                           dangerouslySetInnerHTML={{ __html: post.excerpt }}
                         />
                         
-                        <div className="text-xs text-muted-foreground">
-                          Published: {new Date(post.date).toLocaleDateString()}
+                        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                          <span>Published: {new Date(post.date).toLocaleDateString()}</span>
+                          {post.language.language && (
+                            <Badge
+                              variant={post.language.mixed ? 'outline' : 'secondary'}
+                              className="flex items-center gap-1 font-normal"
+                              title={post.language.mixed ? 'Written in several languages' : 'Detected source language'}
+                            >
+                              <Languages className="h-3 w-3" />
+                              {post.language.mixed ? `Mixed: ${post.language.languages.join(', ')}` : post.language.language}
+                            </Badge>
+                          )}
                         </div>
                       </div>
                     </div>
@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import {
+  loadPromptHistory,
+  PROMPT_KIND_LABELS,
+  PROMPT_VARIABLES,
+  PromptHistory,
+  PromptKind,
+  PromptTemplate,
+  savePromptTemplate,
+  templateId,
+  validateTemplate,
+} from '@/services/promptTemplates';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { History, Save } from 'lucide-react';
+
+const latestOf = (history: PromptHistory, kind: PromptKind): PromptTemplate =>
+  history[kind][history[kind].length - 1];
+
+const PromptTemplateEditor: React.FC = () => {
+  const [history, setHistory] = useState<PromptHistory>(loadPromptHistory);
+  const [kind, setKind] = useState<PromptKind>('body');
+  const [text, setText] = useState(() => latestOf(history, 'body').text);
+  const [note, setNote] = useState('');
+
+  const latest = latestOf(history, kind);
+  const problems = validateTemplate(text);
+
+  const selectKind = (nextKind: PromptKind) => {
+    setKind(nextKind);
+    setText(latestOf(history, nextKind).text);
+    setNote('');
+  };
+
+  const save = (templateText: string, templateNote: string) => {
+    try {
+      const nextHistory = savePromptTemplate(kind, templateText, templateNote);
+      setHistory(nextHistory);
+      setText(templateText);
+      setNote('');
+      toast.success(`Saved ${templateId(latestOf(nextHistory, kind))}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save template');
+    }
+  };
+
+  // Restoring never rewrites history: the old text comes back as a new version
+  const restore = (template: PromptTemplate) => {
+    save(template.text, `Restored from v${template.version}`);
+  };
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-muted-foreground">
+        Prompts sent to Gemini and OpenAI. Every save adds a version; new jobs use the latest one, and the version is
+        recorded with each translated post. DeepL and LibreTranslate don't use prompts.
+      </p>
+
+      <div className="space-y-2">
+        <Select value={kind} onValueChange={(value) => selectKind(value as PromptKind)}>
+          <SelectTrigger className="h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(PROMPT_KIND_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          className="min-h-[220px] font-mono text-xs"
+        />
+        <div className="flex flex-wrap gap-1 text-xs text-muted-foreground">
+          Variables:
+          {PROMPT_VARIABLES.map((variable) => (
+            <code key={variable}>{`{{${variable}}}`}</code>
+          ))}
+        </div>
+        {problems.length > 0 && (
+          <ul className="text-xs text-destructive list-disc pl-4">
+            {problems.map((problem) => <li key={problem}>{problem}</li>)}
+          </ul>
+        )}
+        <div className="flex gap-2">
+          <Input
+            placeholder="What changed?"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            className="h-8"
+          />
+          <Button
+            size="sm"
+            onClick={() => save(text, note.trim())}
+            disabled={problems.length > 0 || text === latest.text}
+            className="flex items-center gap-1"
+          >
+            <Save className="h-4 w-4" />
+            Save as v{latest.version + 1}
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-2 border-t pt-4">
+        <Label className="flex items-center gap-1 text-sm">
+          <History className="h-4 w-4" />
+          History
+        </Label>
+        {[...history[kind]].reverse().map((template) => (
+          <div key={template.version} className="flex items-center justify-between gap-2 text-sm p-2 rounded-md border">
+            <div className="min-w-0">
+              <code className="text-xs">{templateId(template)}</code>
+              <span className="ml-2 text-muted-foreground">{template.note || 'No note'}</span>
+              {template.version > 1 && (
+                <span className="ml-2 text-xs text-muted-foreground">{new Date(template.createdAt).toLocaleString()}</span>
+              )}
+            </div>
+            {template === latest ? (
+              <span className="text-xs text-muted-foreground">In use</span>
+            ) : (
+              <div className="flex gap-1">
+                <Button variant="ghost" size="sm" onClick={() => setText(template.text)}>
+                  View
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => restore(template)}>
+                  Restore
+                </Button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PromptTemplateEditor;
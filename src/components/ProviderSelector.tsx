@@ -0,0 +1,196 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { motion } from 'framer-motion';
+import { MockFailure, PROVIDERS, getDefaultProviderSettings, getProvider, ProviderId, ProviderSettings } from '@/services/providers';
+import { DEFAULT_MOCK_OPTIONS, MOCK_MODES } from '@/services/providers/mock';
+import { useVault } from '@/context/VaultContext';
+import { Cpu, KeyRound } from 'lucide-react';
+
+const MOCK_FAILURE_LABELS: Record<MockFailure, string> = {
+  rateLimit: '429 rate limit',
+  serverError: '500 server error',
+  truncation: 'Truncated answer',
+  droppedPlaceholder: 'Dropped placeholder',
+};
+
+interface ProviderSelectorProps {
+  settings: ProviderSettings;
+  onSettingsChange: (settings: ProviderSettings) => void;
+}
+
+const ProviderSelector: React.FC<ProviderSelectorProps> = ({ settings, onSettingsChange }) => {
+  const provider = getProvider(settings.providerId);
+  const { status: vaultStatus, keysFor } = useVault();
+  const providerKeys = keysFor(settings.providerId);
+  const mockOptions = settings.mock ?? DEFAULT_MOCK_OPTIONS;
+
+  const setFailureRate = (failure: MockFailure, percent: number) => {
+    const rate = Math.min(100, Math.max(0, percent || 0)) / 100;
+    onSettingsChange({ ...settings, mock: { ...mockOptions, failureRates: { ...mockOptions.failureRates, [failure]: rate } } });
+  };
+
+  const handleProviderChange = (id: string) => {
+    onSettingsChange(getDefaultProviderSettings(id as ProviderId));
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.4, delay: 0.3 }}
+      className="w-full"
+    >
+      <Card className="glass-card">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-xl">
+            <Cpu className="h-5 w-5 text-primary/80" />
+            Translation Engine
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Select value={settings.providerId} onValueChange={handleProviderChange}>
+              <SelectTrigger className="bg-white/50 dark:bg-black/50">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PROVIDERS.map((p) => (
+                  <SelectItem key={p.id} value={p.id}>
+                    {p.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">{provider.description}</p>
+          </div>
+
+          {provider.capabilities.customEndpoint && (
+            <div className="space-y-2">
+              <Label htmlFor="provider-base-url">Endpoint URL</Label>
+              <Input
+                id="provider-base-url"
+                value={settings.baseUrl}
+                onChange={(e) => onSettingsChange({ ...settings, baseUrl: e.target.value })}
+                placeholder={provider.defaultBaseUrl}
+                className="bg-white/50 dark:bg-black/50"
+              />
+            </div>
+          )}
+
+          {provider.capabilities.prompts && (
+            <div className="space-y-2">
+              <Label htmlFor="provider-model">Model</Label>
+              <Input
+                id="provider-model"
+                value={settings.model}
+                onChange={(e) => onSettingsChange({ ...settings, model: e.target.value })}
+                placeholder={provider.defaultModel}
+                className="bg-white/50 dark:bg-black/50"
+              />
+            </div>
+          )}
+
+          {settings.providerId === 'mock' && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="mock-mode">Mode</Label>
+                <Select value={settings.model} onValueChange={(model) => onSettingsChange({ ...settings, model })}>
+                  <SelectTrigger id="mock-mode" className="bg-white/50 dark:bg-black/50">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(MOCK_MODES).map(([mode, label]) => (
+                      <SelectItem key={mode} value={mode}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="mock-latency">Latency (ms)</Label>
+                <Input
+                  id="mock-latency"
+                  type="number"
+                  min={0}
+                  value={mockOptions.latencyMs}
+                  onChange={(e) => onSettingsChange({ ...settings, mock: { ...mockOptions, latencyMs: Math.max(0, Number(e.target.value) || 0) } })}
+                  className="bg-white/50 dark:bg-black/50"
+                />
+              </div>
+              {/* Simulated failures, as a share of requests */}
+              <div className="grid grid-cols-2 gap-2">
+                {(Object.keys(MOCK_FAILURE_LABELS) as MockFailure[]).map((failure) => (
+                  <div key={failure} className="space-y-2">
+                    <Label htmlFor={`mock-${failure}`}>{MOCK_FAILURE_LABELS[failure]} (%)</Label>
+                    <Input
+                      id={`mock-${failure}`}
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={Math.round(mockOptions.failureRates[failure] * 100)}
+                      onChange={(e) => setFailureRate(failure, Number(e.target.value))}
+                      className="bg-white/50 dark:bg-black/50"
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Throughput: concurrency is shared by the job, rate budgets apply to every key */}
+          <div className="grid grid-cols-3 gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="provider-concurrency">Parallel requests</Label>
+              <Input
+                id="provider-concurrency"
+                type="number"
+                min={1}
+                value={settings.concurrency}
+                onChange={(e) => onSettingsChange({ ...settings, concurrency: Math.max(1, Number(e.target.value) || 1) })}
+                className="bg-white/50 dark:bg-black/50"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="provider-rpm">Requests / min</Label>
+              <Input
+                id="provider-rpm"
+                type="number"
+                min={1}
+                value={settings.requestsPerMinute}
+                onChange={(e) => onSettingsChange({ ...settings, requestsPerMinute: Math.max(1, Number(e.target.value) || 1) })}
+                className="bg-white/50 dark:bg-black/50"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="provider-tpm">Tokens / min</Label>
+              <Input
+                id="provider-tpm"
+                type="number"
+                min={1}
+                value={settings.tokensPerMinute}
+                onChange={(e) => onSettingsChange({ ...settings, tokensPerMinute: Math.max(1, Number(e.target.value) || 1) })}
+                className="bg-white/50 dark:bg-black/50"
+              />
+            </div>
+          </div>
+
+          {settings.providerId !== 'mock' && (
+            <p className="text-xs text-muted-foreground flex items-center gap-1">
+              <KeyRound className="h-3 w-3" />
+              {vaultStatus === 'unlocked'
+                ? `${providerKeys.length} API key${providerKeys.length === 1 ? '' : 's'} in vault`
+                : 'Unlock the key vault in Settings to use your API keys'}
+              {provider.capabilities.requiresApiKey ? '' : ' (optional for this engine)'}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+};
+
+export default ProviderSelector;
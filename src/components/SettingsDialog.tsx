@@ -0,0 +1,78 @@
+import React from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Button } from '@/components/ui/button';
+import ApiKeyVault from '@/components/ApiKeyVault';
+import GlossaryManager from '@/components/GlossaryManager';
+import TranslationMemoryBrowser from '@/components/TranslationMemoryBrowser';
+import LocaleCatalogEditor from '@/components/LocaleCatalogEditor';
+import StyleProfileEditor from '@/components/StyleProfileEditor';
+import PromptTemplateEditor from '@/components/PromptTemplateEditor';
+import ShortcodeAttributeEditor from '@/components/ShortcodeAttributeEditor';
+import ExclusionRulesEditor from '@/components/ExclusionRulesEditor';
+import { ProviderSettings } from '@/services/providers';
+import { Settings } from 'lucide-react';
+
+interface SettingsDialogProps {
+  providerSettings: ProviderSettings;
+}
+
+const SettingsDialog: React.FC<SettingsDialogProps> = ({ providerSettings }) => {
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex items-center gap-2">
+          <Settings className="h-4 w-4" />
+          Settings
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Settings</DialogTitle>
+          <DialogDescription>Everything here is stored in this browser only</DialogDescription>
+        </DialogHeader>
+        <Tabs defaultValue="keys">
+          <TabsList className="flex flex-wrap h-auto">
+            <TabsTrigger value="keys">API Keys</TabsTrigger>
+            <TabsTrigger value="languages">Languages</TabsTrigger>
+            <TabsTrigger value="styles">Styles</TabsTrigger>
+            <TabsTrigger value="prompts">Prompts</TabsTrigger>
+            <TabsTrigger value="glossary">Glossary</TabsTrigger>
+            <TabsTrigger value="exclusions">Exclusions</TabsTrigger>
+            <TabsTrigger value="shortcodes">Shortcodes</TabsTrigger>
+            <TabsTrigger value="memory">Translation Memory</TabsTrigger>
+          </TabsList>
+          <ScrollArea className="h-[60vh] pr-4 mt-4">
+            <TabsContent value="keys">
+              <ApiKeyVault providerSettings={providerSettings} />
+            </TabsContent>
+            <TabsContent value="languages">
+              <LocaleCatalogEditor />
+            </TabsContent>
+            <TabsContent value="styles">
+              <StyleProfileEditor />
+            </TabsContent>
+            <TabsContent value="prompts">
+              <PromptTemplateEditor />
+            </TabsContent>
+            <TabsContent value="glossary">
+              <GlossaryManager />
+            </TabsContent>
+            <TabsContent value="exclusions">
+              <ExclusionRulesEditor />
+            </TabsContent>
+            <TabsContent value="shortcodes">
+              <ShortcodeAttributeEditor />
+            </TabsContent>
+            <TabsContent value="memory">
+              <TranslationMemoryBrowser />
+            </TabsContent>
+          </ScrollArea>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SettingsDialog;
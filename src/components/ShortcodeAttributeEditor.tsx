@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import {
+  DEFAULT_SHORTCODE_TEXT_ATTRIBUTES,
+  loadShortcodeTextAttributes,
+  resetShortcodeTextAttributes,
+  saveShortcodeTextAttributes,
+  ShortcodeTextAttributes,
+} from '@/services/shortcodeParser';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { toast } from 'sonner';
+import { Plus, RotateCcw, X } from 'lucide-react';
+
+const NAME_REGEX = /^[a-z][\w-]*$/;
+
+const ShortcodeAttributeEditor: React.FC = () => {
+  const [attributes, setAttributes] = useState<ShortcodeTextAttributes>(loadShortcodeTextAttributes);
+  const [shortcode, setShortcode] = useState('');
+  const [attribute, setAttribute] = useState('');
+
+  const update = (next: ShortcodeTextAttributes) => {
+    setAttributes(next);
+    saveShortcodeTextAttributes(next);
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    // Shortcode and attribute names are matched in lower case, like WordPress does
+    const name = shortcode.trim().replace(/^\[|\]$/g, '').toLowerCase();
+    const attributeName = attribute.trim().toLowerCase();
+    if (!NAME_REGEX.test(name) || !NAME_REGEX.test(attributeName)) {
+      toast.error('Use the shortcode and attribute names as written in posts, e.g. "caption" and "title"');
+      return;
+    }
+    if (attributes[name]?.includes(attributeName)) return;
+
+    update({ ...attributes, [name]: [...(attributes[name] ?? []), attributeName] });
+    setAttribute('');
+  };
+
+  const handleRemove = (name: string, attributeName: string) => {
+    const remaining = attributes[name].filter(a => a !== attributeName);
+    const next = { ...attributes, [name]: remaining };
+    if (remaining.length === 0) delete next[name];
+    update(next);
+  };
+
+  const handleReset = () => {
+    resetShortcodeTextAttributes();
+    setAttributes(DEFAULT_SHORTCODE_TEXT_ATTRIBUTES);
+  };
+
+  const names = Object.keys(attributes).sort();
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-muted-foreground">
+        Shortcodes such as <code>[gallery ids="1,2"]</code> are never translated, and neither are their attributes,
+        except the ones listed here as text. Content between an opening and closing shortcode is translated.
+      </p>
+
+      <form onSubmit={handleAdd} className="grid grid-cols-1 sm:grid-cols-[1fr_1fr_auto] gap-2">
+        <Input placeholder="Shortcode, e.g. caption" value={shortcode} onChange={(e) => setShortcode(e.target.value)} />
+        <Input placeholder="Attribute, e.g. title" value={attribute} onChange={(e) => setAttribute(e.target.value)} />
+        <Button type="submit" size="icon" disabled={!shortcode.trim() || !attribute.trim()}>
+          <Plus className="h-4 w-4" />
+        </Button>
+      </form>
+
+      {names.length === 0 ? (
+        <div className="text-center py-4 text-sm text-muted-foreground">No shortcode attributes are translated</div>
+      ) : (
+        <div className="space-y-1">
+          {names.map((name) => (
+            <div key={name} className="flex items-center gap-3 text-sm p-2 rounded-md border">
+              <code className="w-32 truncate">[{name}]</code>
+              <div className="flex flex-wrap gap-2">
+                {attributes[name].map((attributeName) => (
+                  <Badge key={attributeName} variant="secondary" className="flex items-center gap-1">
+                    {attributeName}
+                    <button onClick={() => handleRemove(name, attributeName)} className="hover:text-foreground">
+                      <X className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="border-t pt-4">
+        <Button variant="outline" size="sm" onClick={handleReset} className="flex items-center gap-1">
+          <RotateCcw className="h-4 w-4" />
+          Restore default attributes
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ShortcodeAttributeEditor;
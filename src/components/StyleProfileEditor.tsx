@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import { useStyles } from '@/context/StyleContext';
+import { useLocales } from '@/context/LocaleContext';
+import { createProfile, NEUTRAL_PROFILE_ID, StyleProfile } from '@/services/styleProfiles';
+import { Formality } from '@/services/providers';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { Plus, RotateCcw, Trash2 } from 'lucide-react';
+
+const FORMALITY_LABELS: Record<Formality, string> = {
+  default: 'Engine default',
+  formal: 'Formal',
+  informal: 'Informal',
+};
+
+const StyleProfileEditor: React.FC = () => {
+  const { profiles, assignments, addProfile, updateProfile, removeProfile, assignProfile, restoreDefaults } = useStyles();
+  const { locales } = useLocales();
+  const [name, setName] = useState('');
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    addProfile(createProfile(name.trim()));
+    setName('');
+  };
+
+  const handleRemove = (profile: StyleProfile) => {
+    try {
+      removeProfile(profile.id);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to remove profile');
+    }
+  };
+
+  const updateExample = (profile: StyleProfile, index: number, changes: Partial<StyleProfile['examples'][number]>) => {
+    updateProfile(profile.id, {
+      examples: profile.examples.map((example, i) => (i === index ? { ...example, ...changes } : example)),
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-muted-foreground">
+        Style profiles set the register, audience and style of a translation. Prompt-based engines get all of it;
+        DeepL only takes the formality, LibreTranslate none of it.
+      </p>
+
+      <form onSubmit={handleAdd} className="flex gap-2">
+        <Input placeholder="New profile name" value={name} onChange={(e) => setName(e.target.value)} />
+        <Button type="submit" size="icon" disabled={!name.trim()}>
+          <Plus className="h-4 w-4" />
+        </Button>
+      </form>
+
+      <div className="space-y-4">
+        {profiles.map((profile) => (
+          <div key={profile.id} className="space-y-2 p-3 rounded-md border">
+            <div className="grid grid-cols-1 sm:grid-cols-[1fr_10rem_auto] gap-2 items-center">
+              <Input
+                value={profile.name}
+                onChange={(e) => updateProfile(profile.id, { name: e.target.value })}
+                className="h-8 font-medium"
+              />
+              <Select
+                value={profile.formality}
+                onValueChange={(formality) => updateProfile(profile.id, { formality: formality as Formality })}
+              >
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(FORMALITY_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleRemove(profile)}
+                disabled={profile.id === NEUTRAL_PROFILE_ID}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            <Input
+              placeholder="Audience, e.g. developers new to the product"
+              value={profile.audience}
+              onChange={(e) => updateProfile(profile.id, { audience: e.target.value })}
+              className="h-8"
+            />
+            <Textarea
+              placeholder="Style guide"
+              value={profile.guide}
+              onChange={(e) => updateProfile(profile.id, { guide: e.target.value })}
+              className="min-h-[60px] text-sm"
+            />
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">Example translations</Label>
+              {profile.examples.map((example, index) => (
+                <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-2">
+                  <Input
+                    placeholder="Source"
+                    value={example.source}
+                    onChange={(e) => updateExample(profile, index, { source: e.target.value })}
+                    className="h-8"
+                  />
+                  <Input
+                    placeholder="Translation"
+                    value={example.translation}
+                    onChange={(e) => updateExample(profile, index, { translation: e.target.value })}
+                    className="h-8"
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => updateProfile(profile.id, { examples: profile.examples.filter((_, i) => i !== index) })}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => updateProfile(profile.id, { examples: [...profile.examples, { source: '', translation: '' }] })}
+                className="flex items-center gap-1"
+              >
+                <Plus className="h-4 w-4" />
+                Add example
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2 border-t pt-4">
+        <h3 className="text-sm font-medium">Default profile per language</h3>
+        <p className="text-xs text-muted-foreground">Jobs start from these and can pick another profile per language.</p>
+        {locales.map((locale) => (
+          <div key={locale.tag} className="grid grid-cols-[1fr_12rem] gap-2 items-center text-sm">
+            <span>{locale.name} <code className="text-xs text-muted-foreground">{locale.tag}</code></span>
+            <Select
+              value={assignments[locale.tag] ?? NEUTRAL_PROFILE_ID}
+              onValueChange={(profileId) => assignProfile(locale.tag, profileId === NEUTRAL_PROFILE_ID ? null : profileId)}
+            >
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {profiles.map((profile) => (
+                  <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+      </div>
+
+      <div className="border-t pt-4">
+        <Button variant="outline" size="sm" onClick={restoreDefaults} className="flex items-center gap-1">
+          <RotateCcw className="h-4 w-4" />
+          Restore default profiles
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default StyleProfileEditor;
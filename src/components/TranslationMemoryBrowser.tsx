@@ -0,0 +1,155 @@
+import React, { useEffect, useState } from 'react';
+import { clearMemory, deleteEntry, listEntries, MemoryEntry, updateEntry } from '@/services/translationMemory';
+import { useLocales } from '@/context/LocaleContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { Check, Loader2, Pencil, Search, Trash2 } from 'lucide-react';
+
+// Only the most recent matches are rendered to keep the dialog responsive
+const MAX_VISIBLE_ENTRIES = 200;
+
+const TranslationMemoryBrowser: React.FC = () => {
+  const { locales } = useLocales();
+  const [entries, setEntries] = useState<MemoryEntry[] | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [language, setLanguage] = useState('all');
+  const [editingKey, setEditingKey] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+
+  const reload = async () => {
+    try {
+      setEntries(await listEntries());
+    } catch (error) {
+      console.error('Failed to load translation memory:', error);
+      toast.error('Translation memory is not available in this browser');
+      setEntries([]);
+    }
+  };
+
+  useEffect(() => {
+    reload();
+  }, []);
+
+  if (entries === null) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const term = searchTerm.toLowerCase();
+  const filteredEntries = entries.filter(entry =>
+    (language === 'all' || entry.targetLanguage === language) &&
+    (entry.source.toLowerCase().includes(term) || entry.translation.toLowerCase().includes(term))
+  );
+
+  const handleSave = async (key: string) => {
+    try {
+      await updateEntry(key, draft);
+      setEditingKey(null);
+      await reload();
+      toast.success('Translation updated');
+    } catch (error) {
+      console.error('Failed to update translation memory entry:', error);
+      toast.error('Failed to update entry');
+    }
+  };
+
+  const handleDelete = async (key: string) => {
+    await deleteEntry(key);
+    await reload();
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm('Delete every entry in the translation memory?')) return;
+    await clearMemory();
+    await reload();
+    toast.success('Translation memory cleared');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search source or translation..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="pl-8"
+          />
+        </div>
+        <Select value={language} onValueChange={setLanguage}>
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All languages</SelectItem>
+            {locales.map((l) => (
+              <SelectItem key={l.tag} value={l.tag}>
+                {l.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="text-xs text-muted-foreground">
+        {filteredEntries.length} of {entries.length} segments
+        {filteredEntries.length > MAX_VISIBLE_ENTRIES && ` (showing the ${MAX_VISIBLE_ENTRIES} most recent)`}
+      </div>
+
+      <div className="space-y-2">
+        {filteredEntries.slice(0, MAX_VISIBLE_ENTRIES).map((entry) => (
+          <div key={entry.key} className="p-3 rounded-md border space-y-2 text-sm">
+            <div className="flex items-start gap-2">
+              <p className="flex-1 text-muted-foreground">{entry.source}</p>
+              <span className="text-xs text-muted-foreground whitespace-nowrap">
+                {entry.targetLanguage} · {entry.hits} hits
+              </span>
+            </div>
+            {editingKey === entry.key ? (
+              <div className="flex gap-2">
+                <Textarea value={draft} onChange={(e) => setDraft(e.target.value)} className="flex-1" />
+                <Button size="sm" onClick={() => handleSave(entry.key)}>
+                  <Check className="h-4 w-4" />
+                </Button>
+              </div>
+            ) : (
+              <div className="flex items-start gap-2">
+                <p className="flex-1">{entry.translation}</p>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    setEditingKey(entry.key);
+                    setDraft(entry.translation);
+                  }}
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => handleDelete(entry.key)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {entries.length > 0 && (
+        <div className="border-t pt-4">
+          <Button variant="outline" size="sm" onClick={handleClear}>
+            Clear Translation Memory
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TranslationMemoryBrowser;
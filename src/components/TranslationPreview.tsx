@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Locale } from '@/services/localeCatalog';
+import { SEO_FIELD_LABELS, SeoField, SeoMeta } from '@/services/seoFields';
+import { Loader2, Send } from 'lucide-react';
+
+// A translated post exactly as it will be sent to WordPress
+export type TranslationDraft = {
+  postId: number;
+  // Slug the translation is created under
+  slug: string;
+  title: string;
+  content: string;
+  locale: Locale;
+  // Prompt template versions used, e.g. "body@v3"; empty for non-prompt engines
+  prompts: string[];
+  // Only when the source post has them
+  excerpt?: string;
+  seo?: SeoMeta;
+  // Internal links whose target has no translation in this language yet
+  missingLinks: Array<{ targetId: number, href: string }>;
+};
+
+interface TranslationPreviewProps {
+  draft: TranslationDraft | null;
+  onClose: () => void;
+  // Only offered while the draft is still waiting to be published
+  onPublish?: (draft: TranslationDraft) => Promise<void>;
+}
+
+// Standalone document so the preview uses the post's own direction and language
+// instead of the app's; the sandbox keeps any embedded scripts from running
+const buildPreviewDocument = (draft: TranslationDraft): string => `<!DOCTYPE html>
+<html lang="${draft.locale.tag}" dir="${draft.locale.dir}">
+<head>
+<meta charset="utf-8">
+<style>
+  body { font-family: system-ui, sans-serif; line-height: 1.6; margin: 0; padding: 1.5rem; color: #1f2937; }
+  img, video, iframe { max-width: 100%; height: auto; }
+  pre { direction: ltr; text-align: left; overflow-x: auto; background: #f3f4f6; padding: 0.75rem; }
+</style>
+</head>
+<body>
+<h1>${draft.title}</h1>
+${draft.content}
+</body>
+</html>`;
+
+const TranslationPreview: React.FC<TranslationPreviewProps> = ({ draft, onClose, onPublish }) => {
+  const [isPublishing, setIsPublishing] = useState(false);
+
+  const handlePublish = async () => {
+    if (!draft || !onPublish) return;
+    try {
+      setIsPublishing(true);
+      await onPublish(draft);
+      onClose();
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  return (
+    <Dialog open={draft !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Preview</DialogTitle>
+          <DialogDescription>
+            {draft && `${draft.locale.name} · ${draft.locale.dir === 'rtl' ? 'right-to-left' : 'left-to-right'}`}
+            {draft && draft.prompts.length > 0 && ` · prompts ${draft.prompts.join(', ')}`}
+          </DialogDescription>
+        </DialogHeader>
+        {draft && (
+          <iframe
+            title="Translation preview"
+            sandbox=""
+            srcDoc={buildPreviewDocument(draft)}
+            className="w-full h-[60vh] rounded-md border bg-white"
+          />
+        )}
+        {draft && (draft.excerpt || draft.seo) && (
+          <dl
+            lang={draft.locale.tag}
+            dir={draft.locale.dir}
+            className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm max-h-40 overflow-y-auto"
+          >
+            {draft.excerpt && (
+              <>
+                <dt className="text-muted-foreground">Excerpt</dt>
+                <dd>{draft.excerpt}</dd>
+              </>
+            )}
+            {draft.seo && (Object.keys(draft.seo.fields) as SeoField[]).map(field => (
+              <React.Fragment key={field}>
+                <dt className="text-muted-foreground">{SEO_FIELD_LABELS[field]}</dt>
+                <dd>{draft.seo!.fields[field]} <span className="text-xs text-muted-foreground">({draft.seo!.fields[field]!.length})</span></dd>
+              </React.Fragment>
+            ))}
+          </dl>
+        )}
+        {onPublish && (
+          <DialogFooter>
+            <Button onClick={handlePublish} disabled={isPublishing} className="flex items-center gap-2">
+              {isPublishing ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+              Publish
+            </Button>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TranslationPreview;
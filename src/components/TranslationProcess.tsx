@@ -1,142 +1,588 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useWordPress } from '@/context/WordPressContext';
-import { translatePost } from '@/services/translationService';
-import { publishTranslatedPost } from '@/services/wordpressService';
+import { useVault } from '@/context/VaultContext';
+import { useLocales } from '@/context/LocaleContext';
+import {
+  hasBlockingIssues,
+  preparePost,
+  PreparedPost,
+  TranslatedPost,
+  translatePreparedPost,
+  TranslationIssue,
+  TranslationOptions,
+} from '@/services/translationService';
+import { isSameLanguage } from '@/services/languageDetection';
+import { estimateQuality, QualityEstimate } from '@/services/qualityEstimation';
+import { loadGlossary } from '@/services/glossaryService';
+import { findPostBySlug, PostStatus, PublishedPost, publishTranslatedPost, translatedSlug, WordPressCredentials } from '@/services/wordpressService';
+import { createLinkResolver, fixPendingLinks, LinkResolver, localizeLinks, recordTranslation, setPendingLinks } from '@/services/linkLocalization';
+import { createJobScheduler, runWithConcurrency } from '@/services/scheduler';
+import { getProvider, ProviderSettings } from '@/services/providers';
+import { findLocale, Locale } from '@/services/localeCatalog';
+import { applyDirection } from '@/services/bidi';
+import { StyleProfile } from '@/services/styleProfiles';
+import { latestTemplates } from '@/services/promptTemplates';
+import { SEO_FIELD_LABELS, toSeoMetaKeys, unstoredSeoFields } from '@/services/seoFields';
+import { BatchEstimate, batchCellKey } from '@/services/batchEstimate';
+import { addUsage, emptyUsage, estimateCost, formatCost, recordUsage, UsageTotals } from '@/services/costEstimation';
+import TranslationPreview, { TranslationDraft } from '@/components/TranslationPreview';
+import LiveTranslationPanel, { LiveText } from '@/components/LiveTranslationPanel';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { toast } from 'sonner';
 import { motion } from 'framer-motion';
-import { Globe, X, Loader2, AlertCircle, CheckCircle2 } from 'lucide-react';
+import { Globe, X, Loader2, AlertCircle, AlertTriangle, CheckCircle2, Database, Eye, Radio } from 'lucide-react';
 
 type TranslationProcessProps = {
-  selectedLanguage: string;
+  selectedLanguages: string[];
+  providerSettings: ProviderSettings;
+  // Hold translations until they are previewed and published by hand
+  reviewBeforePublish: boolean;
+  // Score every translation and keep low scorers from going live
+  checkQuality: boolean;
+  // Style profile for each selected language
+  styles: Record<string, StyleProfile>;
+  // Pre-flight estimate, compared with what the engine reports
+  estimate?: BatchEstimate | null;
   onTranslationComplete: () => void;
 };
 
+// One post × language combination of the job
+type CellState = {
+  status: 'pending' | 'running' | 'review' | 'flagged' | 'done' | 'skipped' | 'failed' | 'cancelled';
+  progress: number;
+};
+
+type TranslationResult = {
+  // Cell the result belongs to
+  key: string;
+  success: boolean;
+  message: string;
+  issues?: TranslationIssue[];
+  // The translation as published, or waiting to be
+  draft?: TranslationDraft;
+  awaitingReview?: boolean;
+  quality?: QualityEstimate;
+};
+
+const MAX_RETRIES = 3;
+
+const cellKey = (postIndex: number, language: string) => `${postIndex}:${language}`;
+
+// Retry backoff that ends early when the job is cancelled
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>(resolve => {
+  const onAbort = () => {
+    clearTimeout(timer);
+    resolve();
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+const publishDraft = async (
+  credentials: WordPressCredentials,
+  draft: TranslationDraft,
+  status: PostStatus = 'publish',
+  signal?: AbortSignal
+): Promise<{ id: number, issues: TranslationIssue[] }> => {
+  console.log(`Publishing translated post: ${draft.title}`);
+  // The multilingual plugin knows languages by its own slugs
+  const meta: Record<string, string> = {
+    // Record which prompt versions produced the translation
+    ...(draft.prompts.length > 0 ? { _translate_tales_prompts: draft.prompts.join(',') } : {}),
+    // Under the keys of the SEO plugin the fields came from
+    ...(draft.seo ? toSeoMetaKeys(draft.seo) : {}),
+  };
+  // A request that failed on the way back may still have created the post,
+  // so each retry looks for it before posting a second copy
+  let published: PublishedPost | null = null;
+  for (let attempt = 0; !published; attempt++) {
+    try {
+      if (attempt > 0) published = await findPostBySlug(credentials, draft.slug, status, signal);
+      published ??= await publishTranslatedPost(credentials, draft.postId, draft.title, draft.content, draft.locale.pluginSlug, status, meta, undefined, draft.excerpt, undefined, signal);
+    } catch (error) {
+      if (attempt >= MAX_RETRIES || signal?.aborted) throw error;
+      const delay = Math.pow(2, attempt) * 1000;
+      toast.warning(`Publishing "${draft.title}" failed (attempt ${attempt + 1}/${MAX_RETRIES}). Retrying in ${delay/1000}s...`);
+      await wait(delay, signal);
+    }
+  }
+
+  // Links to this translation can be localized once readers can open it;
+  // links to a draft stay pending until it is published and found by its slug.
+  // This post's own links to untranslated posts are fixed in a later pass.
+  if (status === 'publish') {
+    recordTranslation(credentials.siteUrl, draft.postId, draft.locale.tag, published.link);
+  }
+  setPendingLinks(credentials.siteUrl, published.id, draft.missingLinks.map(link => ({
+    ...link,
+    postId: published.id,
+    language: draft.locale.tag,
+  })));
+
+  // SEO fields the site didn't store never reach the SEO plugin
+  const issues: TranslationIssue[] = (draft.seo ? unstoredSeoFields(draft.seo, published.meta) : []).map(field => ({
+    type: 'seo',
+    severity: 'warning',
+    message: `${SEO_FIELD_LABELS[field]} was not saved: the site doesn't expose it to the REST API, so set it in the SEO plugin`,
+  }));
+  // Like SEO fields, the prompt record only sticks where its meta key is registered for REST
+  if (meta._translate_tales_prompts && published.meta._translate_tales_prompts !== meta._translate_tales_prompts) {
+    issues.push({
+      type: 'prompts',
+      severity: 'warning',
+      message: `The prompt versions used (${meta._translate_tales_prompts}) were not saved with the post: the site doesn't expose _translate_tales_prompts to the REST API`,
+    });
+  }
+  return { id: published.id, issues };
+};
+
+// Update translated posts whose links can now point at a translation
+const relinkEarlierPosts = async (credentials: WordPressCredentials, links: LinkResolver, locales: Locale[], signal?: AbortSignal) => {
+  try {
+    const updated = await fixPendingLinks(credentials, links, locales, signal);
+    if (updated > 0) toast.info(`Updated links in ${updated} earlier translation${updated === 1 ? '' : 's'}`);
+  } catch (error) {
+    console.error('Link update error:', error);
+  }
+};
+
+const qualityLabel = (quality?: QualityEstimate) => quality ? ` · quality ${quality.score}/100` : '';
+
 const TranslationProcess: React.FC<TranslationProcessProps> = ({
-  selectedLanguage,
+  selectedLanguages,
+  providerSettings,
+  reviewBeforePublish,
+  checkQuality,
+  styles,
+  estimate,
   onTranslationComplete,
 }) => {
-  const { selectedPosts, credentials } = useWordPress();
-  const [currentPostIndex, setCurrentPostIndex] = useState(0);
+  const { posts, selectedPosts, credentials } = useWordPress();
+  const { keysFor } = useVault();
+  const { locales, getLocale } = useLocales();
+  const languageName = (tag: string) => getLocale(tag).name;
   const [progress, setProgress] = useState(0);
   const [isTranslating, setIsTranslating] = useState(true);
+  // Cancel was clicked and the job is winding down
+  const [isCancelling, setIsCancelling] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [translationResults, setTranslationResults] = useState<Array<{ success: boolean; message: string }>>([]);
-  const [cancelRequested, setCancelRequested] = useState(false);
-  const [retryCount, setRetryCount] = useState(0);
-  const MAX_RETRIES = 3;
+  const [translationResults, setTranslationResults] = useState<TranslationResult[]>([]);
+  const [previewKey, setPreviewKey] = useState<string | null>(null);
+  const [memoryStats, setMemoryStats] = useState({ hits: 0, misses: 0 });
+  const [cells, setCells] = useState<Record<string, CellState>>({});
+  // What translated cells actually took, by batchCellKey
+  const [usageByCell, setUsageByCell] = useState<Record<string, UsageTotals>>({});
+  // Cell whose text is streamed next to its source; follows the latest started
+  // cell until one is picked in the matrix
+  const [watchedKey, setWatchedKey] = useState<string | null>(null);
+  const [, setLiveVersion] = useState(0);
+  const watchedKeyRef = useRef<string | null>(null);
+  const pinnedRef = useRef(false);
+  const liveRef = useRef(new Map<string, LiveText>());
+  const preparedRef = useRef(new Map<number, PreparedPost>());
+  const linksRef = useRef<LinkResolver | null>(null);
+  const startedRef = useRef(false);
+  // Aborted on cancel; every request, loop and publish of the job checks it
+  const abortRef = useRef(new AbortController());
+  const totalCells = selectedPosts.length * selectedLanguages.length;
 
   useEffect(() => {
-    if (!credentials || selectedPosts.length === 0 || !isTranslating || cancelRequested) {
+    if (!credentials || selectedPosts.length === 0 || selectedLanguages.length === 0 || startedRef.current) {
       return;
     }
+    // The job runs once; it keeps going even if props change underneath it
+    startedRef.current = true;
 
-    const translateCurrentPost = async () => {
-      if (currentPostIndex >= selectedPosts.length) {
-        // All posts processed
-        setIsTranslating(false);
-        setProgress(100); // Ensure progress reaches 100% when done
-        toast.success(`Translation complete! ${translationResults.filter(r => r.success).length} posts translated.`);
-        return;
+    const { signal } = abortRef.current;
+    // One scheduler for the whole job so rate limits hold across posts and languages
+    const options = {
+      provider: providerSettings,
+      apiKeys: keysFor(providerSettings.providerId).map(k => k.key),
+      glossary: loadGlossary(credentials.siteUrl),
+      scheduler: createJobScheduler(providerSettings),
+      locales,
+      // Edits made while the job runs apply to the next job
+      templates: latestTemplates(),
+      signal,
+    };
+    // Shared by every cell so each linked post is only looked up once
+    const links = createLinkResolver(credentials, posts, signal);
+    linksRef.current = links;
+    const cellProgress = new Map<string, number>();
+    let publishedCount = 0;
+    let flaggedCount = 0;
+
+    const updateCell = (postIndex: number, language: string, cell: Partial<CellState>) => {
+      const key = cellKey(postIndex, language);
+      if (cell.progress !== undefined) {
+        cellProgress.set(key, Math.max(cellProgress.get(key) ?? 0, cell.progress));
+        const overall = Array.from(cellProgress.values()).reduce((sum, value) => sum + value, 0) / (selectedPosts.length * selectedLanguages.length);
+        setProgress(Math.min(Math.round(overall), 99)); // Don't reach 100% until everything is done
       }
+      setCells(prev => ({
+        ...prev,
+        [key]: { ...(prev[key] ?? { status: 'pending', progress: 0 }), ...cell, progress: cellProgress.get(key) ?? 0 },
+      }));
+    };
 
-      const currentPost = selectedPosts[currentPostIndex];
-      
-      try {
-        setProgress(Math.min(Math.round((currentPostIndex / selectedPosts.length) * 100), 99)); // Keep progress under 100% until fully complete
-        
-        // Update progress as translation progresses
-        const handleProgress = (progressPercent: number) => {
-          // Scale the progress to the current post's portion of the overall job
-          const postProgress = progressPercent / selectedPosts.length;
-          const overallProgress = Math.round((currentPostIndex / selectedPosts.length) * 100 + postProgress);
-          setProgress(Math.min(overallProgress, 99)); // Don't reach 100% until everything is done
-        };
-
-        console.log(`Starting translation of post: ${currentPost.title}`);
-        const translatedPost = await translatePost(
-          currentPost.title, 
-          currentPost.content, 
-          selectedLanguage,
-          handleProgress
-        );
-        
-        if (cancelRequested) {
-          setIsTranslating(false);
-          return;
-        }
-        
-        console.log(`Publishing translated post: ${translatedPost.title}`);
-        // Get the language code (first 2 letters of the language string)
-        const language_code = selectedLanguage.substring(0, 2).toLowerCase();
-        
-        // Publish the translated post with the language code
-        const newPostId = await publishTranslatedPost(
-          credentials,
-          currentPost.id,
-          translatedPost.title,
-          translatedPost.content,
-          language_code
-        );
-        
+    const watch = (key: string) => {
+      if (pinnedRef.current) return;
+      watchedKeyRef.current = key;
+      setWatchedKey(key);
+    };
+
+    const processCell = async (
+      post: typeof selectedPosts[number],
+      postIndex: number,
+      prepared: PreparedPost,
+      postOptions: TranslationOptions,
+      language: string
+    ) => {
+      const key = cellKey(postIndex, language);
+      const locale = findLocale(locales, language);
+      const label = `${post.title} (${locale.name})`;
+      let succeeded = false;
+      let awaitingReview = false;
+      let flagged = false;
+      // Already reported as failed or kept from publishing by its own
+      // problems, so a cancel arriving afterwards adds no second result
+      let failed = false;
+
+      // Nothing to do for posts that are already written in the target language
+      if (!post.language.mixed && isSameLanguage(post.language.language, language)) {
         setTranslationResults(prev => [
-          ...prev, 
-          { 
-            success: true, 
-            message: `Translated and published: ${translatedPost.title} (ID: ${newPostId})` 
-          }
+          ...prev,
+          { key, success: true, message: `Skipped: ${post.title} is already in ${locale.name}` }
         ]);
-        
-        // Move to the next post
-        setCurrentPostIndex(prev => prev + 1);
-        setRetryCount(0); // Reset retry count for next post
-        
-      } catch (error) {
-        console.error('Translation error:', error);
-        
-        if (retryCount < MAX_RETRIES && !cancelRequested) {
-          // Retry with backoff
-          setRetryCount(prev => prev + 1);
-          const delay = Math.pow(2, retryCount) * 1000; // Exponential backoff
-          
-          toast.warning(`Translation attempt ${retryCount + 1}/${MAX_RETRIES} failed. Retrying in ${delay/1000}s...`);
-          
-          setTimeout(() => {
-            // Don't increment currentPostIndex, just retry
-            translateCurrentPost();
-          }, delay);
-        } else {
-          // Max retries reached or cancel requested, move to next post
+        updateCell(postIndex, language, { status: 'skipped', progress: 100 });
+        return;
+      }
+
+      updateCell(postIndex, language, { status: 'running' });
+      watch(key);
+      const cellOptions: TranslationOptions = { ...postOptions, style: styles[language] };
+      // The translation to publish, once one was made and checked
+      let ready: { translatedPost: TranslatedPost, draft: TranslationDraft, quality?: QualityEstimate } | undefined;
+
+      for (let attempt = 0; attempt <= MAX_RETRIES && !signal.aborted; attempt++) {
+        try {
+          console.log(`Starting translation of post: ${label}`);
+          // Every attempt streams from scratch
+          const live: LiveText = { title: new Map(), body: new Map() };
+          liveRef.current.set(key, live);
+          const translatedPost = await translatePreparedPost(
+            prepared,
+            language,
+            {
+              ...cellOptions,
+              onStream: ({ isTitle, id, text }) => {
+                (isTitle ? live.title : live.body).set(id, text);
+                // Only the watched cell is on screen
+                if (watchedKeyRef.current === key) setLiveVersion(version => version + 1);
+              },
+            },
+            (percent) => updateCell(postIndex, language, { progress: percent })
+          );
+
+          setMemoryStats(prev => ({
+            hits: prev.hits + translatedPost.report.memoryHits,
+            misses: prev.misses + translatedPost.report.memoryMisses,
+          }));
+          setUsageByCell(prev => ({ ...prev, [batchCellKey(post.id, language)]: { ...translatedPost.report.usage } }));
+
+          if (signal.aborted) {
+            break;
+          }
+
+          // Posts with content that could not be translated safely are never published
+          if (hasBlockingIssues(translatedPost.report)) {
+            failed = true;
+            setTranslationResults(prev => [
+              ...prev,
+              {
+                key,
+                success: false,
+                message: `Not published: ${label} (some content could not be translated safely)`,
+                issues: translatedPost.report.issues
+              }
+            ]);
+            break;
+          }
+
+          let quality: QualityEstimate | undefined;
+          if (checkQuality) {
+            try {
+              // Judge and back-translation requests count toward the cell's usage
+              quality = await estimateQuality(translatedPost.report.pairs, language, {
+                ...cellOptions,
+                onUsage: (request, usage) => recordUsage(translatedPost.report.usage, getProvider(providerSettings.providerId), request, usage),
+              });
+              quality.issues.forEach(issue => translatedPost.report.issues.push({
+                type: 'quality',
+                severity: 'warning',
+                message: `${issue.type}${issue.note ? `: ${issue.note}` : ''} ("${issue.excerpt}")`,
+              }));
+            } catch (error) {
+              console.error('Quality estimation error:', error);
+              translatedPost.report.issues.push({
+                type: 'quality',
+                severity: 'warning',
+                message: `Quality could not be estimated: ${error instanceof Error ? error.message : 'Unknown error'}`,
+              });
+            }
+            setUsageByCell(prev => ({ ...prev, [batchCellKey(post.id, language)]: { ...translatedPost.report.usage } }));
+          }
+
+          if (signal.aborted) {
+            break;
+          }
+
+          // Internal links lead to translated posts where there are any
+          let content = translatedPost.content;
+          let missingLinks: TranslationDraft['missingLinks'] = [];
+          try {
+            ({ html: content, missing: missingLinks } = await localizeLinks(content, locale, links));
+            missingLinks.forEach(link => translatedPost.report.issues.push({
+              type: 'link',
+              severity: 'warning',
+              message: `No ${locale.name} translation yet for the link to ${link.href}; it will be updated once there is one`,
+            }));
+          } catch (error) {
+            console.error('Link localization error:', error);
+            translatedPost.report.issues.push({
+              type: 'link',
+              severity: 'warning',
+              message: `Links could not be localized: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            });
+          }
+
+          // Direction and language markup go in before anyone sees the result
+          const draft: TranslationDraft = {
+            postId: post.id,
+            slug: translatedSlug(post.slug, locale.pluginSlug),
+            ...applyDirection(translatedPost.title, content, locale),
+            locale,
+            prompts: translatedPost.report.prompts,
+            excerpt: translatedPost.excerpt,
+            seo: translatedPost.seo,
+            missingLinks,
+          };
+
+          // Last check before anything is written: once cancelled, nothing is
+          // published, and a write in flight is aborted with the job
+          if (signal.aborted) {
+            break;
+          }
+
+          // Publishing has retries of its own, so a failure there never
+          // translates the post again
+          ready = { translatedPost, draft, quality };
+          break;
+
+        } catch (error) {
+          console.error('Translation error:', error);
+
+          if (attempt < MAX_RETRIES && !signal.aborted) {
+            // Retry with backoff; other posts keep going meanwhile
+            const delay = Math.pow(2, attempt) * 1000;
+            toast.warning(`Translating "${label}" failed (attempt ${attempt + 1}/${MAX_RETRIES}). Retrying in ${delay/1000}s...`);
+            await wait(delay, signal);
+          } else if (!signal.aborted) {
+            failed = true;
+            setTranslationResults(prev => [
+              ...prev,
+              {
+                key,
+                success: false,
+                message: `Failed to translate: ${label} (Error: ${error instanceof Error ? error.message : 'Unknown error'})`
+              }
+            ]);
+          }
+        }
+      }
+
+      if (ready && !signal.aborted) {
+        const { translatedPost, draft, quality } = ready;
+        if (reviewBeforePublish) {
+          awaitingReview = true;
           setTranslationResults(prev => [
-            ...prev, 
-            { 
-              success: false, 
-              message: `Failed to translate: ${currentPost.title} (Error: ${error instanceof Error ? error.message : 'Unknown error'})` 
+            ...prev,
+            {
+              key,
+              success: true,
+              message: `Ready for review: ${translatedPost.title} (${locale.name})${qualityLabel(quality)}`,
+              issues: translatedPost.report.issues,
+              draft,
+              awaitingReview: true,
+              quality
             }
           ]);
-          
-          setCurrentPostIndex(prev => prev + 1);
-          setRetryCount(0); // Reset retry count for next post
+        } else {
+          try {
+            // Low scorers are saved as WordPress drafts for an editor to check
+            const status = quality?.flagged ? 'draft' : 'publish';
+            const { id: newPostId, issues: publishIssues } = await publishDraft(credentials, draft, status, signal);
+            if (status === 'draft') {
+              flagged = true;
+              flaggedCount++;
+            } else {
+              publishedCount++;
+              succeeded = true;
+            }
+            setTranslationResults(prev => [
+              ...prev,
+              {
+                key,
+                success: true,
+                message: status === 'draft'
+                  ? `Saved as draft, needs checking: ${translatedPost.title} (${locale.name}, ID: ${newPostId})${qualityLabel(quality)}`
+                  : `Translated and published: ${translatedPost.title} (${locale.name}, ID: ${newPostId})${qualityLabel(quality)}`,
+                issues: [...translatedPost.report.issues, ...publishIssues],
+                draft,
+                quality
+              }
+            ]);
+          } catch (error) {
+            console.error('Publishing error:', error);
+            if (!signal.aborted) {
+              failed = true;
+              setTranslationResults(prev => [
+                ...prev,
+                {
+                  key,
+                  success: false,
+                  message: `Failed to publish: ${label} (Error: ${error instanceof Error ? error.message : 'Unknown error'})`,
+                  issues: translatedPost.report.issues,
+                  draft,
+                  quality
+                }
+              ]);
+            }
+          }
         }
       }
+
+      const cancelled = signal.aborted && !succeeded && !awaitingReview && !flagged && !failed;
+      if (cancelled) {
+        setTranslationResults(prev => [
+          ...prev,
+          { key, success: false, message: `Cancelled: ${label} (not published)` }
+        ]);
+      }
+
+      // Finished cells count as done for the overall progress, whatever the outcome
+      updateCell(postIndex, language, {
+        status: cancelled ? 'cancelled' : awaitingReview ? 'review' : flagged ? 'flagged' : succeeded ? 'done' : 'failed',
+        progress: 100,
+      });
     };
 
-    // Small delay to allow UI to update
-    const timeoutId = setTimeout(() => {
-      translateCurrentPost();
-    }, 500);
+    const processPost = async (post: typeof selectedPosts[number], postIndex: number) => {
+      if (signal.aborted) {
+        selectedLanguages.forEach(language => updateCell(postIndex, language, { status: 'cancelled' }));
+        return;
+      }
+      // Parse and extract once, then translate into every language
+      const prepared = preparePost(post.title, post.content, { excerpt: post.manualExcerpt, seo: post.seo });
+      preparedRef.current.set(postIndex, prepared);
+      // Mixed posts leave the source open so every segment is read as what it is
+      const postOptions = {
+        ...options,
+        sourceLanguage: post.language.mixed ? undefined : post.language.language ?? undefined,
+      };
+      await runWithConcurrency(selectedLanguages, providerSettings.concurrency, (language) => {
+        if (!signal.aborted) return processCell(post, postIndex, prepared, postOptions, language);
+        updateCell(postIndex, language, { status: 'cancelled' });
+        return Promise.resolve();
+      });
+    };
 
-    return () => clearTimeout(timeoutId);
-  }, [currentPostIndex, selectedPosts, credentials, selectedLanguage, isTranslating, cancelRequested, retryCount]);
+    const runJob = async () => {
+      try {
+        await runWithConcurrency(selectedPosts, providerSettings.concurrency, processPost);
+        if (signal.aborted) {
+          // Every request the job started has settled by now
+          toast.info(`Translation cancelled. ${publishedCount} translations were published before it stopped.`);
+        } else {
+          setProgress(100); // Ensure progress reaches 100% when done
+          toast.success(`Translation complete! ${publishedCount} translations published${flaggedCount > 0 ? `, ${flaggedCount} saved as drafts for checking` : ''}.`);
+          await relinkEarlierPosts(credentials, links, locales, signal);
+        }
+      } catch (error) {
+        console.error('Translation job error:', error);
+        setError(error instanceof Error ? error.message : 'Translation failed');
+      } finally {
+        setIsTranslating(false);
+      }
+    };
+
+    runJob();
+  }, [credentials, posts, selectedPosts, selectedLanguages, providerSettings, reviewBeforePublish, checkQuality, styles, keysFor, locales]);
 
   const handleCancel = () => {
-    setCancelRequested(true);
-    setIsTranslating(false);
-    toast.info("Translation process cancelled");
+    // Requests to the engine and to WordPress are aborted, link updates
+    // included; the job ends once they have settled
+    abortRef.current.abort();
+    setIsCancelling(true);
+    toast.info('Cancelling translation...');
+  };
+
+  const previewResult = translationResults.find(result => result.key === previewKey);
+
+  // Follow a cell picked in the matrix instead of the latest one started
+  const handleWatch = (key: string) => {
+    if (!liveRef.current.has(key)) return;
+    pinnedRef.current = true;
+    watchedKeyRef.current = key;
+    setWatchedKey(key);
+  };
+
+  // Estimated against actual usage, over the cells that were translated
+  const reconciledKeys = Object.keys(usageByCell).filter(key => estimate?.cells[key]);
+  const actualUsage = reconciledKeys.reduce((total, key) => addUsage(total, usageByCell[key]), emptyUsage());
+  const estimatedUsage = reconciledKeys.reduce((total, key) => addUsage(total, estimate!.cells[key].usage), emptyUsage());
+  const usageRows: Array<[string, number | string, number | string]> = [
+    ['Requests', estimatedUsage.requests, actualUsage.requests],
+    ['Characters', estimatedUsage.characters, actualUsage.characters],
+    ['Input tokens', estimatedUsage.inputTokens, actualUsage.inputTokens],
+    ['Output tokens', estimatedUsage.outputTokens, actualUsage.outputTokens],
+    ['Cost', formatCost(estimateCost(estimatedUsage, estimate?.pricing ?? null)), formatCost(estimateCost(actualUsage, estimate?.pricing ?? null))],
+  ];
+
+  const [watchedPost, watchedLanguage] = watchedKey ? watchedKey.split(/:(.*)/) : [];
+  const watchedPrepared = watchedKey ? preparedRef.current.get(Number(watchedPost)) : undefined;
+  const watchedLive = watchedKey ? liveRef.current.get(watchedKey) : undefined;
+
+  // Publish a translation that was held for review
+  const handlePublishDraft = async (draft: TranslationDraft) => {
+    if (!credentials || !previewResult) return;
+    const { key } = previewResult;
+    try {
+      const { id: newPostId, issues: publishIssues } = await publishDraft(credentials, draft);
+      setTranslationResults(prev => prev.map(result => result.key === key
+        ? {
+          ...result,
+          awaitingReview: false,
+          message: `Translated and published: ${draft.title} (${draft.locale.name}, ID: ${newPostId})${qualityLabel(result.quality)}`,
+          issues: [...(result.issues ?? []), ...publishIssues],
+        }
+        : result
+      ));
+      setCells(prev => ({ ...prev, [key]: { status: 'done', progress: 100 } }));
+      toast.success('Translation published');
+      if (linksRef.current) await relinkEarlierPosts(credentials, linksRef.current, locales);
+    } catch (error) {
+      console.error('Publishing error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to publish translation');
+    }
   };
 
   const handleComplete = () => {
@@ -158,8 +604,8 @@ const TranslationProcess: React.FC<TranslationProcessProps> = ({
           </CardTitle>
           <CardDescription className="text-center">
             {isTranslating 
-              ? `Translating post ${currentPostIndex + 1} of ${selectedPosts.length}`
-              : `Completed translating ${translationResults.filter(r => r.success).length} of ${selectedPosts.length} posts`
+              ? `Finished ${translationResults.length} of ${totalCells} translations (${selectedPosts.length} posts × ${selectedLanguages.length} languages)`
+              : `Completed ${translationResults.filter(r => r.success).length} of ${totalCells} translations`
             }
           </CardDescription>
         </CardHeader>
@@ -172,17 +618,115 @@ const TranslationProcess: React.FC<TranslationProcessProps> = ({
               <span>{Math.round(progress)}%</span>
             </div>
             <Progress value={progress} className="h-2" />
+            {memoryStats.hits + memoryStats.misses > 0 && (
+              <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                <Database className="h-3 w-3" />
+                Translation memory: {memoryStats.hits} reused, {memoryStats.misses} sent to the provider
+              </div>
+            )}
           </div>
           
-          {/* Current Post Info */}
-          {isTranslating && currentPostIndex < selectedPosts.length && (
-            <div className="p-4 bg-primary/5 rounded-lg">
-              <h3 className="font-medium mb-1 truncate">
-                {selectedPosts[currentPostIndex].title}
-              </h3>
-              <p className="text-sm text-muted-foreground truncate">
-                {selectedPosts[currentPostIndex].slug}
-              </p>
+          {/* Post × language matrix */}
+          <div className="max-h-72 overflow-auto border rounded-lg">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Post</TableHead>
+                  {selectedLanguages.map(language => (
+                    <TableHead key={language} className="text-center whitespace-nowrap">
+                      {languageName(language)}
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {selectedPosts.map((post, postIndex) => (
+                  <TableRow key={post.id}>
+                    <TableCell className="max-w-[200px] truncate font-medium">{post.title}</TableCell>
+                    {selectedLanguages.map(language => {
+                      const key = cellKey(postIndex, language);
+                      const cell = cells[key];
+                      return (
+                        <TableCell
+                          key={language}
+                          onClick={() => handleWatch(key)}
+                          className={`text-center text-xs ${liveRef.current.has(key) ? 'cursor-pointer' : ''} ${key === watchedKey ? 'bg-muted' : ''}`}
+                        >
+                          {!cell || cell.status === 'pending' ? (
+                            <span className="text-muted-foreground">—</span>
+                          ) : cell.status === 'running' ? (
+                            <span className="inline-flex items-center gap-1 text-primary">
+                              <Loader2 className="h-3 w-3 animate-spin" />
+                              {Math.round(cell.progress)}%
+                            </span>
+                          ) : cell.status === 'skipped' ? (
+                            <span className="text-muted-foreground" title="Already in this language">skipped</span>
+                          ) : cell.status === 'cancelled' ? (
+                            <span className="text-muted-foreground" title="Not published">cancelled</span>
+                          ) : cell.status === 'review' ? (
+                            <Eye className="h-4 w-4 mx-auto text-amber-600" />
+                          ) : cell.status === 'flagged' ? (
+                            <AlertTriangle className="h-4 w-4 mx-auto text-amber-600" aria-label="Saved as draft" />
+                          ) : cell.status === 'done' ? (
+                            <CheckCircle2 className="h-4 w-4 mx-auto text-green-600" />
+                          ) : (
+                            <AlertCircle className="h-4 w-4 mx-auto text-red-600" />
+                          )}
+                        </TableCell>
+                      );
+                    })}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+          
+          {/* Live output of the watched cell */}
+          {watchedPrepared && watchedLive && (
+            <div className="space-y-2">
+              <div className="flex items-center gap-1 text-sm font-medium">
+                <Radio className="h-4 w-4" />
+                {selectedPosts[Number(watchedPost)]?.title} → {languageName(watchedLanguage)}
+                {cells[watchedKey!]?.status === 'running' && (
+                  <span className="text-xs font-normal text-muted-foreground">(live)</span>
+                )}
+              </div>
+              <LiveTranslationPanel
+                prepared={watchedPrepared}
+                live={watchedLive}
+                locale={getLocale(watchedLanguage)}
+                active={isTranslating && cells[watchedKey!]?.status === 'running'}
+              />
+            </div>
+          )}
+          
+          {/* Estimate against what the engine reported */}
+          {!isTranslating && reconciledKeys.length > 0 && (
+            <div className="space-y-1">
+              <h3 className="font-medium text-sm">Usage</h3>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead></TableHead>
+                    <TableHead className="text-right">Estimated</TableHead>
+                    <TableHead className="text-right">Actual</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {usageRows.map(([label, estimated, actual]) => (
+                    <TableRow key={label} className="text-xs">
+                      <TableCell>{label}</TableCell>
+                      <TableCell className="text-right">{estimated.toLocaleString()}</TableCell>
+                      <TableCell className="text-right">{actual.toLocaleString()}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {actualUsage.reported < actualUsage.requests && (
+                <p className="text-xs text-muted-foreground">
+                  {actualUsage.requests - actualUsage.reported} of {actualUsage.requests} requests came back without usage figures; estimates are used for those.
+                </p>
+              )}
             </div>
           )}
           
@@ -190,16 +734,45 @@ const TranslationProcess: React.FC<TranslationProcessProps> = ({
           {translationResults.length > 0 && (
             <div className="mt-4 max-h-60 overflow-y-auto space-y-2 border rounded-lg p-3">
               <h3 className="font-medium text-sm sticky top-0 bg-background pb-2">Translation Results:</h3>
-              {translationResults.map((result, index) => (
+              {translationResults.map((result) => (
                 <div 
-                  key={index}
+                  key={result.key}
                   className={`text-sm p-2 rounded-lg flex items-start gap-2 ${
+                    result.awaitingReview || result.quality?.flagged ? 'bg-amber-50 text-amber-800 dark:bg-amber-950 dark:text-amber-200' :
                     result.success ? 'bg-green-50 text-green-800 dark:bg-green-950 dark:text-green-200' : 
                     'bg-red-50 text-red-800 dark:bg-red-950 dark:text-red-200'
                   }`}
                 >
                   {result.success ? <CheckCircle2 className="h-4 w-4 mt-0.5 flex-shrink-0" /> : <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />}
-                  <span className="flex-1">{result.message}</span>
+                  <div className="flex-1">
+                    <span>{result.message}</span>
+                    {result.issues && result.issues.length > 0 && (
+                      <ul className="mt-1 space-y-0.5 text-xs">
+                        {result.issues.map((issue, issueIndex) => (
+                          <li
+                            key={issueIndex}
+                            className={`flex items-start gap-1 ${
+                              issue.severity === 'error' ? 'text-red-700 dark:text-red-300' : 'text-amber-700 dark:text-amber-300'
+                            }`}
+                          >
+                            <AlertTriangle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+                            <span>{issue.message}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                  {result.draft && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setPreviewKey(result.key)}
+                      className="h-7 px-2 flex items-center gap-1"
+                    >
+                      <Eye className="h-4 w-4" />
+                      {result.awaitingReview ? 'Review' : 'Preview'}
+                    </Button>
+                  )}
                 </div>
               ))}
             </div>
@@ -219,10 +792,11 @@ const TranslationProcess: React.FC<TranslationProcessProps> = ({
             <Button 
               variant="outline" 
               onClick={handleCancel}
+              disabled={isCancelling}
               className="flex items-center gap-2"
             >
-              <X className="h-4 w-4" />
-              Cancel
+              {isCancelling ? <Loader2 className="h-4 w-4 animate-spin" /> : <X className="h-4 w-4" />}
+              {isCancelling ? 'Cancelling...' : 'Cancel'}
             </Button>
           ) : (
             <Button 
@@ -235,6 +809,12 @@ const TranslationProcess: React.FC<TranslationProcessProps> = ({
           )}
         </CardFooter>
       </Card>
+      
+      <TranslationPreview
+        draft={previewResult?.draft ?? null}
+        onClose={() => setPreviewKey(null)}
+        onPublish={previewResult?.awaitingReview ? handlePublishDraft : undefined}
+      />
     </motion.div>
   );
 };
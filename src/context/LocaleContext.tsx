@@ -0,0 +1,74 @@
+import React, { createContext, useContext, useState, ReactNode } from 'react';
+import {
+  DEFAULT_LOCALES,
+  Locale,
+  findLocale,
+  loadLocales,
+  resetLocales,
+  saveLocales,
+} from '@/services/localeCatalog';
+
+type LocaleContextType = {
+  locales: Locale[];
+  getLocale: (tag: string) => Locale;
+  addLocale: (locale: Locale) => void;
+  updateLocale: (tag: string, changes: Partial<Omit<Locale, 'tag'>>) => void;
+  removeLocale: (tag: string) => void;
+  restoreDefaults: () => void;
+};
+
+const LocaleContext = createContext<LocaleContextType | undefined>(undefined);
+
+export const LocaleProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [locales, setLocales] = useState<Locale[]>(loadLocales);
+
+  const persist = (nextLocales: Locale[]) => {
+    saveLocales(nextLocales);
+    setLocales(nextLocales);
+  };
+
+  const getLocale = (tag: string) => findLocale(locales, tag);
+
+  const addLocale = (locale: Locale) => {
+    if (locales.some(l => l.tag === locale.tag)) {
+      throw new Error(`${locale.tag} is already in the catalog`);
+    }
+    persist([...locales, locale]);
+  };
+
+  const updateLocale = (tag: string, changes: Partial<Omit<Locale, 'tag'>>) => {
+    persist(locales.map(locale => (locale.tag === tag ? { ...locale, ...changes } : locale)));
+  };
+
+  const removeLocale = (tag: string) => {
+    persist(locales.filter(locale => locale.tag !== tag));
+  };
+
+  const restoreDefaults = () => {
+    resetLocales();
+    setLocales(DEFAULT_LOCALES);
+  };
+
+  return (
+    <LocaleContext.Provider
+      value={{
+        locales,
+        getLocale,
+        addLocale,
+        updateLocale,
+        removeLocale,
+        restoreDefaults,
+      }}
+    >
+      {children}
+    </LocaleContext.Provider>
+  );
+};
+
+export const useLocales = (): LocaleContextType => {
+  const context = useContext(LocaleContext);
+  if (context === undefined) {
+    throw new Error('useLocales must be used within a LocaleProvider');
+  }
+  return context;
+};
@@ -0,0 +1,100 @@
+import React, { createContext, useContext, useState, ReactNode } from 'react';
+import {
+  DEFAULT_PROFILES,
+  NEUTRAL_PROFILE_ID,
+  StyleAssignments,
+  StyleProfile,
+  defaultProfileFor,
+  loadAssignments,
+  loadProfiles,
+  resetProfiles,
+  saveAssignments,
+  saveProfiles,
+} from '@/services/styleProfiles';
+
+type StyleContextType = {
+  profiles: StyleProfile[];
+  assignments: StyleAssignments;
+  // Default profile of a language
+  profileFor: (language: string) => StyleProfile;
+  addProfile: (profile: StyleProfile) => void;
+  updateProfile: (id: string, changes: Partial<Omit<StyleProfile, 'id'>>) => void;
+  removeProfile: (id: string) => void;
+  // Pass null to fall back to the neutral profile
+  assignProfile: (language: string, profileId: string | null) => void;
+  restoreDefaults: () => void;
+};
+
+const StyleContext = createContext<StyleContextType | undefined>(undefined);
+
+export const StyleProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [profiles, setProfiles] = useState<StyleProfile[]>(loadProfiles);
+  const [assignments, setAssignments] = useState<StyleAssignments>(loadAssignments);
+
+  const persistProfiles = (nextProfiles: StyleProfile[]) => {
+    saveProfiles(nextProfiles);
+    setProfiles(nextProfiles);
+  };
+
+  const persistAssignments = (nextAssignments: StyleAssignments) => {
+    saveAssignments(nextAssignments);
+    setAssignments(nextAssignments);
+  };
+
+  const profileFor = (language: string) => defaultProfileFor(profiles, assignments, language);
+
+  const addProfile = (profile: StyleProfile) => {
+    persistProfiles([...profiles, profile]);
+  };
+
+  const updateProfile = (id: string, changes: Partial<Omit<StyleProfile, 'id'>>) => {
+    persistProfiles(profiles.map(profile => (profile.id === id ? { ...profile, ...changes } : profile)));
+  };
+
+  const removeProfile = (id: string) => {
+    if (id === NEUTRAL_PROFILE_ID) {
+      throw new Error('The neutral profile can be edited but not removed');
+    }
+    persistProfiles(profiles.filter(profile => profile.id !== id));
+    // Languages using the profile go back to the neutral one
+    persistAssignments(Object.fromEntries(Object.entries(assignments).filter(([, profileId]) => profileId !== id)));
+  };
+
+  const assignProfile = (language: string, profileId: string | null) => {
+    const { [language]: _previous, ...rest } = assignments;
+    persistAssignments(profileId ? { ...rest, [language]: profileId } : rest);
+  };
+
+  const restoreDefaults = () => {
+    resetProfiles();
+    setProfiles(DEFAULT_PROFILES);
+    persistAssignments(Object.fromEntries(
+      Object.entries(assignments).filter(([, profileId]) => DEFAULT_PROFILES.some(profile => profile.id === profileId))
+    ));
+  };
+
+  return (
+    <StyleContext.Provider
+      value={{
+        profiles,
+        assignments,
+        profileFor,
+        addProfile,
+        updateProfile,
+        removeProfile,
+        assignProfile,
+        restoreDefaults,
+      }}
+    >
+      {children}
+    </StyleContext.Provider>
+  );
+};
+
+export const useStyles = (): StyleContextType => {
+  const context = useContext(StyleContext);
+  if (context === undefined) {
+    throw new Error('useStyles must be used within a StyleProvider');
+  }
+  return context;
+};
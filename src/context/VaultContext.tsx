@@ -0,0 +1,116 @@
+import React, { createContext, useContext, useState, ReactNode } from 'react';
+import { toast } from 'sonner';
+import {
+  VaultKey,
+  VaultSession,
+  createVault,
+  deleteVault,
+  saveVault,
+  unlockVault,
+  vaultExists,
+} from '@/services/keyVault';
+import { ProviderId } from '@/services/providers';
+
+type VaultStatus = 'missing' | 'locked' | 'unlocked';
+
+type VaultContextType = {
+  status: VaultStatus;
+  keys: VaultKey[];
+  create: (passphrase: string) => Promise<void>;
+  unlock: (passphrase: string) => Promise<void>;
+  lock: () => void;
+  reset: () => void;
+  addKey: (key: Omit<VaultKey, 'id' | 'createdAt'>) => Promise<void>;
+  updateKey: (id: string, changes: Partial<VaultKey>) => Promise<void>;
+  removeKey: (id: string) => Promise<void>;
+  keysFor: (providerId: ProviderId) => VaultKey[];
+};
+
+const VaultContext = createContext<VaultContextType | undefined>(undefined);
+
+export const VaultProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [session, setSession] = useState<VaultSession | null>(null);
+  const [keys, setKeys] = useState<VaultKey[]>([]);
+  const [exists, setExists] = useState<boolean>(vaultExists());
+
+  const status: VaultStatus = session ? 'unlocked' : exists ? 'locked' : 'missing';
+
+  const persist = async (nextKeys: VaultKey[]) => {
+    if (!session) {
+      throw new Error('Unlock the key vault first');
+    }
+    await saveVault(session, nextKeys);
+    setKeys(nextKeys);
+  };
+
+  const create = async (passphrase: string) => {
+    const newSession = await createVault(passphrase);
+    setSession(newSession);
+    setKeys([]);
+    setExists(true);
+    toast.success('Key vault created');
+  };
+
+  const unlock = async (passphrase: string) => {
+    const { session: newSession, keys: storedKeys } = await unlockVault(passphrase);
+    setSession(newSession);
+    setKeys(storedKeys);
+  };
+
+  const lock = () => {
+    setSession(null);
+    setKeys([]);
+  };
+
+  const reset = () => {
+    deleteVault();
+    setSession(null);
+    setKeys([]);
+    setExists(false);
+    toast.success('Key vault deleted');
+  };
+
+  const addKey = async (key: Omit<VaultKey, 'id' | 'createdAt'>) => {
+    await persist([
+      ...keys,
+      { ...key, id: crypto.randomUUID(), createdAt: new Date().toISOString() },
+    ]);
+  };
+
+  const updateKey = async (id: string, changes: Partial<VaultKey>) => {
+    await persist(keys.map(key => (key.id === id ? { ...key, ...changes } : key)));
+  };
+
+  const removeKey = async (id: string) => {
+    await persist(keys.filter(key => key.id !== id));
+  };
+
+  const keysFor = (providerId: ProviderId) => keys.filter(key => key.providerId === providerId);
+
+  return (
+    <VaultContext.Provider
+      value={{
+        status,
+        keys,
+        create,
+        unlock,
+        lock,
+        reset,
+        addKey,
+        updateKey,
+        removeKey,
+        keysFor,
+      }}
+    >
+      {children}
+    </VaultContext.Provider>
+  );
+};
+
+export const useVault = (): VaultContextType => {
+  const context = useContext(VaultContext);
+  if (context === undefined) {
+    throw new Error('useVault must be used within a VaultProvider');
+  }
+  return context;
+};
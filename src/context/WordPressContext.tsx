@@ -1,16 +1,21 @@
 
 import React, { createContext, useContext, useState, ReactNode } from 'react';
 import { toast } from 'sonner';
+import { DetectedLanguage } from '@/services/languageDetection';
+import { SeoMeta } from '@/services/seoFields';
 
 // Define types for WordPress API responses
+// (raw fields are only present when fetched with context=edit)
 export type WPPostData = {
   id: number;
-  title: { rendered: string };
-  content: { rendered: string };
-  excerpt: { rendered: string };
+  title: { rendered: string; raw?: string };
+  content: { rendered: string; raw?: string };
+  excerpt: { rendered: string; raw?: string };
   slug: string;
   date: string;
   link: string;
+  // Registered post meta, where SEO plugins may keep their fields
+  meta?: Record<string, unknown>;
 };
 
 // Define our app-specific Post type
@@ -19,10 +24,16 @@ export type Post = {
   title: string;
   content: string;
   excerpt: string;
+  // Excerpt written by hand; empty when WordPress generates it from the content
+  manualExcerpt: string;
+  // SEO title and descriptions of the site's SEO plugin
+  seo: SeoMeta | null;
   slug: string;
   date: string;
   link: string;
   selected: boolean;
+  // Source language detected from the title and content
+  language: DetectedLanguage;
 };
 
 type WordPressCredentials = {
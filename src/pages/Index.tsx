@@ -1,23 +1,93 @@
 
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { WordPressProvider } from '@/context/WordPressContext';
 import ConnectionForm from '@/components/ConnectionForm';
 import PostList from '@/components/PostList';
 import LanguageSelector from '@/components/LanguageSelector';
 import TranslationProcess from '@/components/TranslationProcess';
+import ProviderSelector from '@/components/ProviderSelector';
+import SettingsDialog from '@/components/SettingsDialog';
+import BatchEstimatePanel from '@/components/BatchEstimatePanel';
+import { VaultProvider, useVault } from '@/context/VaultContext';
+import { LocaleProvider, useLocales } from '@/context/LocaleContext';
+import { StyleProvider, useStyles } from '@/context/StyleContext';
+import { getDefaultProviderSettings, getProvider, ProviderSettings } from '@/services/providers';
+import { BatchEstimate, estimateBatch } from '@/services/batchEstimate';
+import { defaultProfileFor } from '@/services/styleProfiles';
+import { loadGlossary } from '@/services/glossaryService';
+import { latestTemplates } from '@/services/promptTemplates';
 import { useWordPress } from '@/context/WordPressContext';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
 import { motion } from 'framer-motion';
 import { toast } from 'sonner';
 
 const AppContent = () => {
-  const { isConnected, selectedPosts } = useWordPress();
-  const [selectedLanguage, setSelectedLanguage] = useState('zh');
+  const { isConnected, selectedPosts, credentials } = useWordPress();
+  const { keysFor } = useVault();
+  const { locales } = useLocales();
+  const { profiles, assignments } = useStyles();
+  const [selectedLanguages, setSelectedLanguages] = useState<string[]>(['zh-Hans']);
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(getDefaultProviderSettings('gemini'));
+  const [reviewBeforePublish, setReviewBeforePublish] = useState(false);
+  const [checkQuality, setCheckQuality] = useState(true);
+  // Profiles picked for this job, by language; the rest use their defaults
+  const [styleChoices, setStyleChoices] = useState<Record<string, string>>({});
   const [isTranslating, setIsTranslating] = useState(false);
+  const [estimate, setEstimate] = useState<BatchEstimate | null>(null);
+  const [isEstimating, setIsEstimating] = useState(false);
   
-  const handleLanguageChange = (language: string) => {
-    setSelectedLanguage(language);
+  const handleLanguagesChange = (languages: string[]) => {
+    setSelectedLanguages(languages);
   };
   
+  const handleStyleChange = (language: string, profileId: string) => {
+    setStyleChoices(prev => ({ ...prev, [language]: profileId }));
+  };
+  
+  // Languages removed from the catalog, or dropped by restoring its defaults,
+  // leave the selection too, so no job runs against a tag it can't resolve
+  useEffect(() => {
+    const inCatalog = (tag: string) => locales.some(locale => locale.tag === tag);
+    setSelectedLanguages(prev => (prev.every(inCatalog) ? prev : prev.filter(inCatalog)));
+    setStyleChoices(prev => (Object.keys(prev).every(inCatalog)
+      ? prev
+      : Object.fromEntries(Object.entries(prev).filter(([tag]) => inCatalog(tag)))));
+  }, [locales]);
+  
+  const jobStyles = useMemo(() => Object.fromEntries(selectedLanguages.map(language => [
+    language,
+    profiles.find(profile => profile.id === styleChoices[language]) ?? defaultProfileFor(profiles, assignments, language),
+  ])), [selectedLanguages, styleChoices, profiles, assignments]);
+  
+  // Re-estimate whenever the batch changes, once the selection settles
+  useEffect(() => {
+    // The running job keeps the estimate it started with, for reconciliation
+    if (isTranslating) return;
+    if (!credentials || selectedPosts.length === 0 || selectedLanguages.length === 0) {
+      setEstimate(null);
+      return;
+    }
+    let cancelled = false;
+    setIsEstimating(true);
+    const timer = setTimeout(() => {
+      estimateBatch(selectedPosts, selectedLanguages, {
+        provider: providerSettings,
+        apiKeys: [],
+        glossary: loadGlossary(credentials.siteUrl),
+        locales,
+        templates: latestTemplates(),
+      }, jobStyles)
+        .then(result => !cancelled && setEstimate(result))
+        .catch(error => console.error('Estimate error:', error))
+        .finally(() => !cancelled && setIsEstimating(false));
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [credentials, isTranslating, selectedPosts, selectedLanguages, providerSettings, locales, jobStyles]);
+  
   const handleTranslationComplete = () => {
     setIsTranslating(false);
   };
@@ -28,8 +98,14 @@ const AppContent = () => {
       return;
     }
     
-    if (!selectedLanguage) {
-      toast.error('Please select a target language');
+    if (selectedLanguages.length === 0) {
+      toast.error('Please select at least one target language');
+      return;
+    }
+    
+    const provider = getProvider(providerSettings.providerId);
+    if (provider.capabilities.requiresApiKey && keysFor(provider.id).length === 0) {
+      toast.error(`Add a ${provider.name} API key in Settings and unlock the vault first`);
       return;
     }
     
@@ -38,6 +114,10 @@ const AppContent = () => {
   
   return (
     <div>
+      <div className="flex justify-end mb-4">
+        <SettingsDialog providerSettings={providerSettings} />
+      </div>
+      
       {/* Connection form */}
       <ConnectionForm />
       
@@ -66,7 +146,7 @@ const AppContent = () => {
                   animate={{ opacity: 1, y: 0 }}
                   transition={{ duration: 0.3, delay: 0.2 }}
                 >
-                  Choose the posts you want to translate and select your target language
+                  Choose the posts you want to translate and select your target languages
                 </motion.p>
               </div>
               
@@ -76,10 +156,50 @@ const AppContent = () => {
                 </div>
                 <div className="lg:col-span-1">
                   <LanguageSelector 
-                    selectedLanguage={selectedLanguage}
-                    onLanguageChange={handleLanguageChange}
+                    selectedLanguages={selectedLanguages}
+                    onLanguagesChange={handleLanguagesChange}
+                    styles={jobStyles}
+                    onStyleChange={handleStyleChange}
                   />
                   
+                  <div className="mt-4">
+                    <ProviderSelector
+                      settings={providerSettings}
+                      onSettingsChange={setProviderSettings}
+                    />
+                  </div>
+                  
+                  <div className="mt-4 flex items-center justify-between gap-2 px-1">
+                    <Label htmlFor="review-before-publish" className="text-sm">
+                      Preview translations before publishing
+                    </Label>
+                    <Switch
+                      id="review-before-publish"
+                      checked={reviewBeforePublish}
+                      onCheckedChange={setReviewBeforePublish}
+                    />
+                  </div>
+                  
+                  <div className="mt-2 flex items-center justify-between gap-2 px-1">
+                    <Label htmlFor="check-quality" className="text-sm">
+                      Check quality, save low scorers as drafts
+                    </Label>
+                    <Switch
+                      id="check-quality"
+                      checked={checkQuality}
+                      onCheckedChange={setCheckQuality}
+                    />
+                  </div>
+                  
+                  <div className="mt-4">
+                    <BatchEstimatePanel
+                      estimate={estimate}
+                      isEstimating={isEstimating}
+                      posts={selectedPosts}
+                      languages={selectedLanguages}
+                    />
+                  </div>
+                  
                   <motion.div 
                     className="mt-4"
                     initial={{ opacity: 0, y: 10 }}
@@ -88,14 +208,17 @@ const AppContent = () => {
                   >
                     <button
                       onClick={startTranslation}
-                      disabled={selectedPosts.length === 0}
+                      disabled={selectedPosts.length === 0 || selectedLanguages.length === 0}
                       className={`w-full py-3 px-4 rounded-lg font-medium transition-all duration-300 flex items-center justify-center gap-2
-                        ${selectedPosts.length === 0 
+                        ${selectedPosts.length === 0 || selectedLanguages.length === 0
                           ? 'bg-gray-200 text-gray-500 cursor-not-allowed' 
                           : 'bg-primary text-primary-foreground hover:bg-primary/90 hover:shadow-lg'
                         }`}
                     >
-                      <span>Translate {selectedPosts.length} Selected Posts</span>
+                      <span>
+                        Translate {selectedPosts.length} Selected Posts
+                        {selectedLanguages.length > 1 && ` into ${selectedLanguages.length} Languages`}
+                      </span>
                       {selectedPosts.length > 0 && (
                         <span className="bg-white/20 text-white px-2 py-0.5 rounded-full text-xs">
                           {selectedPosts.length}
@@ -108,7 +231,12 @@ const AppContent = () => {
             </>
           ) : (
             <TranslationProcess 
-              selectedLanguage={selectedLanguage}
+              selectedLanguages={selectedLanguages}
+              providerSettings={providerSettings}
+              reviewBeforePublish={reviewBeforePublish}
+              checkQuality={checkQuality}
+              styles={jobStyles}
+              estimate={estimate}
               onTranslationComplete={handleTranslationComplete}
             />
           )}
@@ -121,36 +249,42 @@ const AppContent = () => {
 const Index = () => {
   return (
     <WordPressProvider>
-      <div className="min-h-screen bg-gradient-to-b from-blue-50 to-gray-100 dark:from-slate-900 dark:to-gray-900 pb-20">
-        <motion.div 
-          className="container mx-auto pt-12 px-4"
-          initial={{ opacity: 0 }}
-          animate={{ opacity: 1 }}
-          transition={{ duration: 0.5 }}
-        >
-          <motion.div 
-            className="text-center mb-12"
-            initial={{ opacity: 0, y: -20 }}
-            animate={{ opacity: 1, y: 0 }}
-            transition={{ duration: 0.5, delay: 0.1 }}
-          >
-            <h1 className="text-4xl font-bold mb-4">WordPress Translation Tool</h1>
-            <p className="text-xl text-muted-foreground max-w-2xl mx-auto">
-              Connect to your WordPress site and translate posts to multiple languages 
-              using advanced AI translation
-            </p>
-          </motion.div>
-          
-          <motion.div 
-            className="max-w-5xl mx-auto"
-            initial={{ opacity: 0, y: 20 }}
-            animate={{ opacity: 1, y: 0 }}
-            transition={{ duration: 0.5, delay: 0.2 }}
-          >
-            <AppContent />
-          </motion.div>
-        </motion.div>
-      </div>
+      <VaultProvider>
+        <LocaleProvider>
+          <StyleProvider>
+            <div className="min-h-screen bg-gradient-to-b from-blue-50 to-gray-100 dark:from-slate-900 dark:to-gray-900 pb-20">
+              <motion.div 
+                className="container mx-auto pt-12 px-4"
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                transition={{ duration: 0.5 }}
+              >
+                <motion.div 
+                  className="text-center mb-12"
+                  initial={{ opacity: 0, y: -20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ duration: 0.5, delay: 0.1 }}
+                >
+                  <h1 className="text-4xl font-bold mb-4">WordPress Translation Tool</h1>
+                  <p className="text-xl text-muted-foreground max-w-2xl mx-auto">
+                    Connect to your WordPress site and translate posts to multiple languages 
+                    using advanced AI translation
+                  </p>
+                </motion.div>
+            
+                <motion.div 
+                  className="max-w-5xl mx-auto"
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ duration: 0.5, delay: 0.2 }}
+                >
+                  <AppContent />
+                </motion.div>
+              </motion.div>
+            </div>
+          </StyleProvider>
+        </LocaleProvider>
+      </VaultProvider>
     </WordPressProvider>
   );
 };
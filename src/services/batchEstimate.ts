@@ -0,0 +1,65 @@
+// Pre-flight estimate of a batch: what every post × language cell of a job is
+// expected to send, built from the same preparation and chunking as the job.
+
+import { DetectedLanguage, isSameLanguage } from './languageDetection';
+import { SeoMeta } from './seoFields';
+import { addUsage, emptyUsage, estimateCost, findPricing, Pricing } from './costEstimation';
+import { planPreparedPost, preparePost, TranslationOptions, TranslationPlan } from './translationService';
+import { StyleProfile } from './styleProfiles';
+
+export type BatchPost = {
+  id: number;
+  title: string;
+  content: string;
+  manualExcerpt: string;
+  seo: SeoMeta | null;
+  language: DetectedLanguage;
+};
+
+export type BatchEstimate = {
+  // Plan of every cell by batchCellKey; cells that will be skipped are missing
+  cells: Record<string, TranslationPlan>;
+  total: TranslationPlan;
+  pricing: Pricing | null;
+};
+
+export const batchCellKey = (postId: number, language: string) => `${postId}:${language}`;
+
+export const planCost = (plan: TranslationPlan, pricing: Pricing | null): number | null =>
+  estimateCost(plan.usage, pricing);
+
+export const estimateBatch = async (
+  posts: BatchPost[],
+  languages: string[],
+  options: TranslationOptions,
+  styles: Record<string, StyleProfile>
+): Promise<BatchEstimate> => {
+  const estimate: BatchEstimate = {
+    cells: {},
+    total: { usage: emptyUsage(), memoryHits: 0, memoryMisses: 0 },
+    pricing: findPricing(options.provider),
+  };
+
+  for (const post of posts) {
+    const prepared = preparePost(post.title, post.content, { excerpt: post.manualExcerpt, seo: post.seo });
+    // Same source language handling as the job itself
+    const postOptions = {
+      ...options,
+      sourceLanguage: post.language.mixed ? undefined : post.language.language ?? undefined,
+    };
+
+    for (const language of languages) {
+      if (!post.language.mixed && isSameLanguage(post.language.language, language)) continue;
+
+      const plan = await planPreparedPost(prepared, language, { ...postOptions, style: styles[language] });
+      estimate.cells[batchCellKey(post.id, language)] = plan;
+      estimate.total = {
+        usage: addUsage(estimate.total.usage, plan.usage),
+        memoryHits: estimate.total.memoryHits + plan.memoryHits,
+        memoryMisses: estimate.total.memoryMisses + plan.memoryMisses,
+      };
+    }
+  }
+
+  return estimate;
+};
@@ -0,0 +1,103 @@
+// Script direction for published translations: every post carries its
+// language and direction, and in right-to-left posts embedded left-to-right
+// runs (URLs, code, brand names) are isolated so punctuation stays in place.
+
+import { HtmlElement, HtmlNode, parseHtml } from './htmlParser';
+import { parseBlocks } from './blockParser';
+import { Locale } from './localeCatalog';
+
+// Text inside these is never rewritten: it is code, already isolated, or not HTML
+const NO_ISOLATION_ELEMENTS = new Set([
+  'audio', 'bdi', 'bdo', 'canvas', 'iframe', 'math', 'noscript', 'object', 'pre', 'script',
+  'select', 'style', 'svg', 'template', 'textarea', 'title', 'video',
+]);
+
+// A run of Latin-script words, URLs or identifiers. Entities other than
+// non-breaking spaces count as part of the run, and a run never starts in the
+// middle of a word or an entity.
+const RUN_CHAR = String.raw`(?:[\p{Script=Latin}\d_.~:/?#@!$*+=%'-]|&(?!nbsp;|#160;|#xa0;)[A-Za-z0-9#]+;)`;
+const LTR_RUN_REGEX = new RegExp(
+  String.raw`(?<![&#\p{L}\d])\p{Script=Latin}${RUN_CHAR}*(?:[ \t]+[\p{Script=Latin}\d]${RUN_CHAR}*)*`,
+  'gu'
+);
+
+const TRAILING_PUNCTUATION_REGEX = /[.,:;!?'-]$/;
+const TRAILING_ENTITY_REGEX = /&[A-Za-z0-9#]+;$/;
+
+// Sentence punctuation after a run belongs to the surrounding right-to-left text
+const trimRun = (run: string): string => {
+  let trimmed = run;
+  while (TRAILING_PUNCTUATION_REGEX.test(trimmed) && !TRAILING_ENTITY_REGEX.test(trimmed)) {
+    trimmed = trimmed.slice(0, -1);
+  }
+  return trimmed;
+};
+
+const wrapLtrRuns = (text: string, wrap: (run: string) => string): string =>
+  text.replace(LTR_RUN_REGEX, match => {
+    const run = trimRun(match);
+    return run ? wrap(run) + match.slice(run.length) : match;
+  });
+
+const isIsolated = (element: HtmlElement | null): boolean => {
+  for (let current = element; current; current = current.parent) {
+    if (NO_ISOLATION_ELEMENTS.has(current.tagName)) return true;
+  }
+  return false;
+};
+
+// Wrap left-to-right runs of every text node in <bdi>; markup, block
+// delimiters and attribute values are left untouched
+export const isolateLtrRuns = (html: string): string => {
+  const { source, root } = parseHtml(html);
+  const edits: Array<{ start: number; end: number; text: string }> = [];
+
+  const visit = (nodes: HtmlNode[]) => {
+    nodes.forEach(node => {
+      if (node.type === 'element') {
+        if (!NO_ISOLATION_ELEMENTS.has(node.tagName)) visit(node.children);
+      } else if (node.type === 'text' && !isIsolated(node.parent)) {
+        const text = source.slice(node.start, node.end);
+        const wrapped = wrapLtrRuns(text, run => `<bdi>${run}</bdi>`);
+        if (wrapped !== text) edits.push({ start: node.start, end: node.end, text: wrapped });
+      }
+    });
+  };
+  visit(root.children);
+
+  let output = '';
+  let pos = 0;
+  edits.forEach(edit => {
+    output += source.slice(pos, edit.start) + edit.text;
+    pos = edit.end;
+  });
+  return output + source.slice(pos);
+};
+
+// Titles are plain text on most themes, so they use Unicode isolates
+// (LEFT-TO-RIGHT ISOLATE ... POP DIRECTIONAL ISOLATE) instead of tags
+export const isolateLtrText = (text: string): string =>
+  wrapLtrRuns(text, run => `\u2066${run}\u2069`);
+
+// Title and content as they should be published for a locale
+export const applyDirection = (
+  title: string,
+  content: string,
+  locale: Pick<Locale, 'tag' | 'dir'>
+): { title: string; content: string } => {
+  const rtl = locale.dir === 'rtl';
+  const body = rtl ? isolateLtrRuns(content) : content;
+  const open = `<div dir="${locale.dir}" lang="${locale.tag}">`;
+
+  // Block content gets the wrapper as two Custom HTML blocks: the editor keeps
+  // their markup as is, while attributes added to core blocks would fail validation
+  const hasBlocks = parseBlocks(body).some(block => block.blockName !== null);
+  const wrapped = hasBlocks
+    ? `<!-- wp:html -->\n${open}\n<!-- /wp:html -->\n\n${body}\n\n<!-- wp:html -->\n</div>\n<!-- /wp:html -->`
+    : `${open}${body}</div>`;
+
+  return {
+    title: rtl ? isolateLtrText(title) : title,
+    content: wrapped,
+  };
+};
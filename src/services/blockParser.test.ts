@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { parseBlocks, serializeBlocks, walkBlocks } from './blockParser';
+
+const POST = `<!-- wp:heading {"level":2} -->
+<h2>Title</h2>
+<!-- /wp:heading -->
+
+<!-- wp:columns -->
+<div class="wp-block-columns"><!-- wp:column -->
+<div class="wp-block-column"><!-- wp:paragraph -->
+<p>Nested &amp; escaped</p>
+<!-- /wp:paragraph --></div>
+<!-- /wp:column --></div>
+<!-- /wp:columns -->
+
+<!-- wp:my-plugin/notice {"text":"Hello \\u003cb\\u003eworld\\u003c/b\\u003e"} /-->
+<p>Freeform HTML</p>`;
+
+describe('parseBlocks', () => {
+  it('serializes unmodified content back to its exact source', () => {
+    expect(serializeBlocks(parseBlocks(POST))).toBe(POST);
+  });
+
+  it('nests inner blocks and keeps namespaces', () => {
+    const names: Array<string | null> = [];
+    walkBlocks(parseBlocks(POST), block => names.push(block.blockName));
+    expect(names.filter(Boolean)).toEqual([
+      'core/heading',
+      'core/columns',
+      'core/column',
+      'core/paragraph',
+      'my-plugin/notice',
+    ]);
+  });
+
+  it('keeps unbalanced and unclosed delimiters as text', () => {
+    const broken = '<!-- wp:paragraph --><p>Open</p><!-- /wp:quote --><!-- wp:list --><ul></ul>';
+    expect(serializeBlocks(parseBlocks(broken))).toBe(broken);
+  });
+
+  it('regenerates the opener of modified blocks with WordPress escaping', () => {
+    const blocks = parseBlocks('<!-- wp:button {"text":"Go"} /-->');
+    blocks[0].attrs = { text: 'A -- "quoted" <b>&</b>' };
+    blocks[0].attrsChanged = true;
+
+    const serialized = serializeBlocks(blocks);
+    expect(serialized).toBe('<!-- wp:button {"text":"A \\u002d\\u002d \\u0022quoted\\u0022 \\u003cb\\u003e\\u0026\\u003c/b\\u003e"} /-->');
+    expect(parseBlocks(serialized)[0].attrs).toEqual(blocks[0].attrs);
+  });
+});
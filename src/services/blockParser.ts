@@ -0,0 +1,164 @@
+// Parser and serializer for the WordPress block grammar
+// (<!-- wp:name {"attr":1} --> ... <!-- /wp:name -->). Blocks that are not
+// modified serialize back to their exact source text.
+
+export type ParsedBlock = {
+  // Fully qualified name (core/paragraph), or null for HTML between blocks
+  blockName: string | null;
+  attrs: Record<string, unknown>;
+  // Delimiters exactly as found in the source; empty for freeform HTML
+  opener: string;
+  closer: string;
+  innerBlocks: ParsedBlock[];
+  // HTML pieces of the block, with null where each inner block goes
+  innerContent: Array<string | null>;
+  // Set when attrs were modified and the opener has to be regenerated
+  attrsChanged?: boolean;
+};
+
+// Same shape as the tokenizer in WordPress' block parser
+const BLOCK_DELIMITER_REGEX = /<!--\s+(\/)?wp:([a-z][a-z0-9_-]*\/)?([a-z][a-z0-9_-]*)\s+(\{[\s\S]*?\}\s+)?(\/)?-->/g;
+
+// Comment attributes that carry human-readable text. Attributes sourced from
+// the block's HTML (like core/image alt) are handled by the HTML translation.
+export const TRANSLATABLE_BLOCK_ATTRIBUTES = new Set([
+  'alt',
+  'buttonText',
+  'caption',
+  'citation',
+  'description',
+  'label',
+  'placeholder',
+  'text',
+  'title',
+]);
+
+const createBlock = (blockName: string | null, attrs: Record<string, unknown>, opener: string): ParsedBlock => ({
+  blockName,
+  attrs,
+  opener,
+  closer: '',
+  innerBlocks: [],
+  innerContent: [],
+});
+
+const freeform = (html: string): ParsedBlock => ({
+  ...createBlock(null, {}, ''),
+  innerContent: [html],
+});
+
+const parseAttrs = (raw: string | undefined): Record<string, unknown> => {
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw);
+  } catch (error) {
+    console.warn('Invalid block attributes, leaving them untouched:', raw);
+    return {};
+  }
+};
+
+export const parseBlocks = (content: string): ParsedBlock[] => {
+  const output: ParsedBlock[] = [];
+  const stack: ParsedBlock[] = [];
+  let pos = 0;
+  let match: RegExpExecArray | null;
+  BLOCK_DELIMITER_REGEX.lastIndex = 0;
+
+  const addHtml = (html: string) => {
+    if (!html) return;
+    if (stack.length > 0) {
+      stack[stack.length - 1].innerContent.push(html);
+    } else {
+      output.push(freeform(html));
+    }
+  };
+
+  const addBlock = (block: ParsedBlock) => {
+    if (stack.length > 0) {
+      const parent = stack[stack.length - 1];
+      parent.innerBlocks.push(block);
+      parent.innerContent.push(null);
+    } else {
+      output.push(block);
+    }
+  };
+
+  while ((match = BLOCK_DELIMITER_REGEX.exec(content)) !== null) {
+    const [delimiter, isCloser, namespace, name, rawAttrs, isVoid] = match;
+    const blockName = `${namespace || 'core/'}${name}`;
+    addHtml(content.slice(pos, match.index));
+    pos = match.index + delimiter.length;
+
+    if (isCloser) {
+      const open = stack[stack.length - 1];
+      if (open && open.blockName === blockName) {
+        stack.pop();
+        open.closer = delimiter;
+        addBlock(open);
+      } else {
+        // Unbalanced closer: keep it as plain HTML so nothing is lost
+        addHtml(delimiter);
+      }
+    } else if (isVoid) {
+      addBlock(createBlock(blockName, parseAttrs(rawAttrs), delimiter));
+    } else {
+      stack.push(createBlock(blockName, parseAttrs(rawAttrs), delimiter));
+    }
+  }
+
+  addHtml(content.slice(pos));
+
+  // Blocks left open at the end are flattened back into their source text
+  while (stack.length > 0) {
+    const open = stack.pop()!;
+    const html = open.opener + serializeInner(open);
+    if (stack.length > 0) {
+      stack[stack.length - 1].innerContent.push(html);
+    } else {
+      output.push(freeform(html));
+    }
+  }
+
+  return output;
+};
+
+// Escape attributes the way WordPress' serializer does, so "--" never ends
+// the comment early and the markup stays parseable by the block editor
+const serializeAttrs = (attrs: Record<string, unknown>): string =>
+  JSON.stringify(attrs)
+    .replace(/--/g, '\\u002d\\u002d')
+    .replace(/</g, '\\u003c')
+    .replace(/>/g, '\\u003e')
+    .replace(/&/g, '\\u0026')
+    .replace(/\\"/g, '\\u0022');
+
+const serializeOpener = (block: ParsedBlock): string => {
+  if (!block.attrsChanged) return block.opener;
+
+  const name = block.blockName!.startsWith('core/') ? block.blockName!.slice(5) : block.blockName!;
+  const attrs = Object.keys(block.attrs).length > 0 ? `${serializeAttrs(block.attrs)} ` : '';
+  const isVoid = block.closer === '';
+  return `<!-- wp:${name} ${attrs}${isVoid ? '/' : ''}-->`;
+};
+
+const serializeInner = (block: ParsedBlock): string => {
+  let index = 0;
+  return block.innerContent
+    .map(piece => (piece === null ? serializeBlock(block.innerBlocks[index++]) : piece))
+    .join('');
+};
+
+export const serializeBlock = (block: ParsedBlock): string => {
+  if (block.blockName === null) return serializeInner(block);
+  return serializeOpener(block) + serializeInner(block) + block.closer;
+};
+
+export const serializeBlocks = (blocks: ParsedBlock[]): string => blocks.map(serializeBlock).join('');
+
+// Depth-first visit of every block, including freeform HTML pieces
+export const walkBlocks = (blocks: ParsedBlock[], visit: (block: ParsedBlock) => void): void => {
+  blocks.forEach(block => {
+    visit(block);
+    walkBlocks(block.innerBlocks, visit);
+  });
+};
@@ -0,0 +1,122 @@
+// Requests, characters, tokens and cost of translation work, both estimated
+// before a job and as reported by the engines while it runs.
+
+import { ProviderId, ProviderSettings, ReportedUsage, TranslationProvider, TranslationRequest } from './providers';
+import { estimateTokens } from './scheduler';
+
+export type UsageTotals = {
+  requests: number;
+  // Source characters sent, or billed when the engine says so
+  characters: number;
+  inputTokens: number;
+  outputTokens: number;
+  // Requests whose figures came from the engine; the rest are estimates
+  reported: number;
+};
+
+// List prices in US dollars per million units
+export type Pricing = {
+  unit: 'token' | 'character';
+  input: number;
+  output: number;
+};
+
+const tokens = (input: number, output: number): Pricing => ({ unit: 'token', input, output });
+
+// Matched by model name prefix, longest first. Prices change; these only
+// have to be close enough to tell a cheap batch from an expensive one.
+const PRICING: Record<ProviderId, Record<string, Pricing>> = {
+  gemini: {
+    'gemini-1.5-flash-8b': tokens(0.0375, 0.15),
+    'gemini-1.5-flash': tokens(0.075, 0.3),
+    'gemini-1.5-pro': tokens(1.25, 5),
+    'gemini-2.0-flash-lite': tokens(0.075, 0.3),
+    'gemini-2.0-flash': tokens(0.1, 0.4),
+    'gemini-2.5-flash': tokens(0.3, 2.5),
+    'gemini-2.5-pro': tokens(1.25, 10),
+  },
+  openai: {
+    'gpt-4o-mini': tokens(0.15, 0.6),
+    'gpt-4o': tokens(2.5, 10),
+    'gpt-4.1-nano': tokens(0.1, 0.4),
+    'gpt-4.1-mini': tokens(0.4, 1.6),
+    'gpt-4.1': tokens(2, 8),
+    'gpt-3.5-turbo': tokens(0.5, 1.5),
+  },
+  // DeepL Pro bills the source characters
+  deepl: {
+    '': { unit: 'character', input: 25, output: 0 },
+  },
+  // Self-hosted, or a flat subscription
+  libretranslate: {
+    '': { unit: 'character', input: 0, output: 0 },
+  },
+  mock: {
+    '': { unit: 'character', input: 0, output: 0 },
+  },
+};
+
+const FREE: Pricing = { unit: 'character', input: 0, output: 0 };
+
+// Price list for the chosen engine and model, null when unknown
+// (e.g. a local model behind an OpenAI-compatible server)
+export const findPricing = (settings: ProviderSettings): Pricing | null => {
+  // The free plan has its own host; its monthly allowance costs nothing
+  if (settings.providerId === 'deepl' && settings.baseUrl.includes('api-free.')) return FREE;
+
+  // Routers prefix models with their vendor, e.g. "openai/gpt-4o-mini"
+  const model = settings.model.split('/').pop() ?? '';
+  const match = Object.keys(PRICING[settings.providerId])
+    .filter(prefix => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return match === undefined ? null : PRICING[settings.providerId][match];
+};
+
+export const estimateCost = (usage: UsageTotals, pricing: Pricing | null): number | null => {
+  if (!pricing) return null;
+  return pricing.unit === 'character'
+    ? (usage.characters * pricing.input) / 1e6
+    : (usage.inputTokens * pricing.input + usage.outputTokens * pricing.output) / 1e6;
+};
+
+export const formatCost = (cost: number | null): string => {
+  if (cost === null) return 'unknown';
+  if (cost === 0) return 'free';
+  return cost < 0.01 ? '< $0.01' : `$${cost.toFixed(2)}`;
+};
+
+export const emptyUsage = (): UsageTotals => ({
+  requests: 0,
+  characters: 0,
+  inputTokens: 0,
+  outputTokens: 0,
+  reported: 0,
+});
+
+export const addUsage = (total: UsageTotals, usage: UsageTotals): UsageTotals => ({
+  requests: total.requests + usage.requests,
+  characters: total.characters + usage.characters,
+  inputTokens: total.inputTokens + usage.inputTokens,
+  outputTokens: total.outputTokens + usage.outputTokens,
+  reported: total.reported + usage.reported,
+});
+
+// Count one request, with the engine's figures when it reported them and
+// estimates otherwise. Answers are assumed to be about as long as the source.
+export const recordUsage = (
+  totals: UsageTotals,
+  provider: TranslationProvider,
+  request: TranslationRequest,
+  reported?: ReportedUsage
+): void => {
+  totals.requests++;
+  totals.characters += reported?.billedCharacters ?? request.text.length;
+  if (reported) {
+    totals.inputTokens += reported.inputTokens;
+    totals.outputTokens += reported.outputTokens;
+    totals.reported++;
+  } else if (provider.capabilities.prompts) {
+    totals.inputTokens += estimateTokens(request.prompt);
+    totals.outputTokens += estimateTokens(request.text);
+  }
+};
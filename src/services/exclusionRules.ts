@@ -0,0 +1,80 @@
+// Parts of a post that are never sent for translation, on top of the elements
+// that never hold prose (scripts, styles, media). Excluded markup is kept out
+// at extraction and published exactly as in the source.
+
+export type ExclusionRules = {
+  // Elements kept whole wherever they appear, e.g. pre and code
+  tags: string[];
+  // Elements with any of these classes are kept whole
+  classes: string[];
+  // Keyword of the comments editors put around a region:
+  // <!-- notranslate --> ... <!-- /notranslate -->. Empty turns markers off.
+  marker: string;
+};
+
+const STORAGE_KEY = 'translate-tales.exclusions';
+
+export const DEFAULT_EXCLUSION_RULES: ExclusionRules = {
+  tags: ['pre', 'code', 'kbd', 'samp'],
+  classes: ['notranslate'],
+  marker: 'notranslate',
+};
+
+export const loadExclusionRules = (): ExclusionRules => {
+  const raw = localStorage.getItem(STORAGE_KEY);
+  if (!raw) return DEFAULT_EXCLUSION_RULES;
+
+  try {
+    return { ...DEFAULT_EXCLUSION_RULES, ...JSON.parse(raw) };
+  } catch (error) {
+    console.error('Corrupted exclusion rules in storage:', error);
+    return DEFAULT_EXCLUSION_RULES;
+  }
+};
+
+export const saveExclusionRules = (rules: ExclusionRules): void => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(rules));
+};
+
+export const resetExclusionRules = (): void => {
+  localStorage.removeItem(STORAGE_KEY);
+};
+
+// Whether an element is excluded by its tag, its classes or translate="no"
+export const isExcludedElement = (
+  tagName: string,
+  attributes: Array<{ name: string, value: string }>,
+  rules: ExclusionRules
+): boolean => {
+  if (rules.tags.includes(tagName)) return true;
+
+  return attributes.some(attribute => {
+    if (attribute.name === 'translate') return attribute.value.trim().toLowerCase() === 'no';
+    if (attribute.name === 'class') return attribute.value.split(/\s+/).some(name => rules.classes.includes(name));
+    return false;
+  });
+};
+
+// Source ranges between marker comments, markers included. A region left
+// open runs to the end of the document, so nothing meant to stay is lost.
+export const findExcludedRegions = (source: string, marker: string): Array<{ start: number, end: number }> => {
+  if (!marker.trim()) return [];
+
+  const keyword = marker.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const markerRegex = new RegExp(`<!--\\s*(\\/?)${keyword}\\s*-->`, 'gi');
+  const regions: Array<{ start: number, end: number }> = [];
+  let open: number | null = null;
+  let match: RegExpExecArray | null;
+
+  while ((match = markerRegex.exec(source)) !== null) {
+    if (!match[1] && open === null) {
+      open = match.index;
+    } else if (match[1] && open !== null) {
+      regions.push({ start: open, end: match.index + match[0].length });
+      open = null;
+    }
+  }
+  if (open !== null) regions.push({ start: open, end: source.length });
+
+  return regions;
+};
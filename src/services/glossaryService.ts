@@ -0,0 +1,276 @@
+import { matchesLanguage } from './localeCatalog';
+
+// Per-site terminology: forced source → target mappings per language and
+// terms that must never be translated. Stored in localStorage by site URL.
+
+export type GlossaryEntry = {
+  id: string;
+  source: string;
+  target: string;
+  // Target language tag the mapping applies to
+  language: string;
+};
+
+export type Glossary = {
+  siteUrl: string;
+  sourceLanguage: string;
+  entries: GlossaryEntry[];
+  doNotTranslate: string[];
+};
+
+const STORAGE_PREFIX = 'translate-tales.glossary.';
+
+export const createEmptyGlossary = (siteUrl: string): Glossary => ({
+  siteUrl,
+  sourceLanguage: 'en',
+  entries: [],
+  doNotTranslate: [],
+});
+
+export const loadGlossary = (siteUrl: string): Glossary => {
+  const raw = localStorage.getItem(STORAGE_PREFIX + siteUrl);
+  if (!raw) return createEmptyGlossary(siteUrl);
+
+  try {
+    return { ...createEmptyGlossary(siteUrl), ...JSON.parse(raw) };
+  } catch (error) {
+    console.error('Corrupted glossary in storage:', error);
+    return createEmptyGlossary(siteUrl);
+  }
+};
+
+export const saveGlossary = (glossary: Glossary): void => {
+  localStorage.setItem(STORAGE_PREFIX + glossary.siteUrl, JSON.stringify(glossary));
+};
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Scripts written without spaces between words can't use word boundaries
+const NO_WORD_BOUNDARY_REGEX = /[\u0e00-\u0e7f\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]/;
+
+export const containsTerm = (text: string, term: string): boolean => {
+  if (!term.trim()) return false;
+  if (NO_WORD_BOUNDARY_REGEX.test(term)) {
+    return text.toLowerCase().includes(term.toLowerCase());
+  }
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(term)}(?![\\p{L}\\p{N}])`, 'iu').test(text);
+};
+
+// Entries for a bare language (pt) also apply to its variants (pt-BR, pt-PT)
+const entriesFor = (glossary: Glossary, language: string): GlossaryEntry[] =>
+  glossary.entries.filter(entry => matchesLanguage(language, entry.language));
+
+// Prompt lines for the glossary terms that occur in the text being translated
+export const buildGlossaryInstructions = (glossary: Glossary | undefined, language: string, text: string): string => {
+  if (!glossary) return '';
+
+  const terms = entriesFor(glossary, language).filter(entry => containsTerm(text, entry.source));
+  const keep = glossary.doNotTranslate.filter(term => containsTerm(text, term));
+  const lines: string[] = [];
+
+  if (terms.length > 0) {
+    lines.push('Always use these translations for the following terms:');
+    terms.forEach(entry => lines.push(`- "${entry.source}" → "${entry.target}"`));
+  }
+  if (keep.length > 0) {
+    lines.push(`Never translate these terms, keep them exactly as written: ${keep.map(term => `"${term}"`).join(', ')}`);
+  }
+
+  return lines.join('\n');
+};
+
+// Compare a source segment and its translation against the glossary
+export const checkGlossary = (
+  glossary: Glossary | undefined,
+  language: string,
+  source: string,
+  translation: string
+): string[] => {
+  if (!glossary) return [];
+  const violations: string[] = [];
+
+  entriesFor(glossary, language).forEach(entry => {
+    if (containsTerm(source, entry.source) && !containsTerm(translation, entry.target)) {
+      violations.push(`"${entry.source}" should be translated as "${entry.target}"`);
+    }
+  });
+
+  glossary.doNotTranslate.forEach(term => {
+    if (containsTerm(source, term) && !translation.includes(term)) {
+      violations.push(`"${term}" must not be translated`);
+    }
+  });
+
+  return violations;
+};
+
+// CSV columns: type, source, target, language (type is "term" or "dnt")
+const CSV_HEADER = 'type,source,target,language';
+
+const csvField = (value: string): string =>
+  /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+const parseCsvRows = (csv: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < csv.length; i++) {
+    const char = csv[i];
+    if (inQuotes) {
+      if (char === '"' && csv[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && csv[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim()));
+};
+
+export const glossaryToCsv = (glossary: Glossary): string => {
+  const lines = [CSV_HEADER];
+  glossary.entries.forEach(entry => {
+    lines.push(['term', entry.source, entry.target, entry.language].map(csvField).join(','));
+  });
+  glossary.doNotTranslate.forEach(term => {
+    lines.push(['dnt', term, '', ''].map(csvField).join(','));
+  });
+  return lines.join('\n') + '\n';
+};
+
+export const glossaryFromCsv = (csv: string, siteUrl: string): Glossary => {
+  const glossary = createEmptyGlossary(siteUrl);
+  const rows = parseCsvRows(csv);
+  if (rows.length > 0 && rows[0].join(',').toLowerCase() === CSV_HEADER) {
+    rows.shift();
+  }
+
+  rows.forEach(([type, source = '', target = '', language = '']) => {
+    if (type === 'dnt' && source.trim()) {
+      glossary.doNotTranslate.push(source.trim());
+    } else if (type === 'term' && source.trim() && target.trim() && language.trim()) {
+      glossary.entries.push({
+        id: crypto.randomUUID(),
+        source: source.trim(),
+        target: target.trim(),
+        language: language.trim(),
+      });
+    }
+  });
+
+  return glossary;
+};
+
+const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// TBX-Basic (v2) export: one termEntry per source term, with a langSet for the
+// source and every target language. Never-translate terms are marked with
+// a termNote of type "translatable".
+export const glossaryToTbx = (glossary: Glossary): string => {
+  const bySource = new Map<string, GlossaryEntry[]>();
+  glossary.entries.forEach(entry => {
+    bySource.set(entry.source, [...(bySource.get(entry.source) ?? []), entry]);
+  });
+
+  const langSet = (language: string, term: string, note = '') =>
+    `      <langSet xml:lang="${escapeXml(language)}">\n` +
+    `        <tig><term>${escapeXml(term)}</term>${note}</tig>\n` +
+    `      </langSet>\n`;
+
+  let body = '';
+  bySource.forEach((entries, source) => {
+    body += '    <termEntry>\n';
+    body += langSet(glossary.sourceLanguage, source);
+    entries.forEach(entry => { body += langSet(entry.language, entry.target); });
+    body += '    </termEntry>\n';
+  });
+  glossary.doNotTranslate.forEach(term => {
+    body += '    <termEntry>\n';
+    body += langSet(glossary.sourceLanguage, term, '<termNote type="translatable">no</termNote>');
+    body += '    </termEntry>\n';
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<martif type="TBX-Basic" xml:lang="${escapeXml(glossary.sourceLanguage)}">
+  <text>
+  <body>
+${body}  </body>
+  </text>
+</martif>
+`;
+};
+
+export const glossaryFromTbx = (xml: string, siteUrl: string): Glossary => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Invalid TBX file');
+  }
+
+  const root = doc.documentElement;
+  const sourceLanguage = root.getAttribute('xml:lang') || 'en';
+  const glossary = { ...createEmptyGlossary(siteUrl), sourceLanguage };
+
+  // TBX v2 uses termEntry/langSet, TBX v3 conceptEntry/langSec
+  const termEntries = [
+    ...Array.from(doc.getElementsByTagName('termEntry')),
+    ...Array.from(doc.getElementsByTagName('conceptEntry')),
+  ];
+
+  termEntries.forEach(termEntry => {
+    const langSets = [
+      ...Array.from(termEntry.getElementsByTagName('langSet')),
+      ...Array.from(termEntry.getElementsByTagName('langSec')),
+    ].map(langSet => ({
+      language: langSet.getAttribute('xml:lang') || '',
+      term: langSet.getElementsByTagName('term')[0]?.textContent?.trim() || '',
+      translatable: Array.from(langSet.getElementsByTagName('termNote')).every(
+        note => note.getAttribute('type') !== 'translatable' || note.textContent?.trim() !== 'no'
+      ),
+    }));
+
+    const source = langSets.find(set => set.language === sourceLanguage) ?? langSets[0];
+    if (!source || !source.term) return;
+
+    if (!source.translatable) {
+      glossary.doNotTranslate.push(source.term);
+      return;
+    }
+
+    langSets
+      .filter(set => set !== source && set.term)
+      .forEach(set => {
+        glossary.entries.push({
+          id: crypto.randomUUID(),
+          source: source.term,
+          target: set.term,
+          language: set.language,
+        });
+      });
+  });
+
+  return glossary;
+};
@@ -0,0 +1,46 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { extractSegments, parseHtml, rebuildHtml } from './htmlParser';
+
+const rebuild = (html: string, translate: (text: string) => string) => {
+  const doc = parseHtml(html);
+  const segments = extractSegments(doc);
+  return rebuildHtml(doc, segments, new Map(segments.map(segment => [segment.id, translate(segment.text)])));
+};
+
+describe('htmlParser', () => {
+  it('rebuilds untranslated markup byte for byte', () => {
+    const html = `<p class='intro'>Hello <strong>bold</strong>&nbsp;world</p>\n<img src=a.png alt="A picture">\n<pre>  keep\n  this</pre><!-- note -->`;
+    const doc = parseHtml(html);
+    expect(rebuildHtml(doc, extractSegments(doc), new Map())).toBe(html);
+  });
+
+  it('keeps everything outside the translated text as it was', () => {
+    const html = `<p class='intro'>Fish &amp; chips <strong>here</strong></p>\n<pre>  keep\n  this</pre><!-- note -->`;
+    expect(rebuild(html, text => text)).toBe(html);
+  });
+
+  it('replaces inline markup with placeholders and puts it back', () => {
+    const doc = parseHtml('<p>Hello <strong>bold</strong> world</p>');
+    const [segment] = extractSegments(doc);
+    expect(segment.text).toBe('Hello {{HTML_ELEMENT_0}}bold{{HTML_ELEMENT_1}} world');
+
+    const translated = rebuildHtml(doc, [segment], new Map([[segment.id, 'Hola {{HTML_ELEMENT_0}}negrita{{HTML_ELEMENT_1}} mundo']]));
+    expect(translated).toBe('<p>Hola <strong>negrita</strong> mundo</p>');
+  });
+
+  it('extracts attribute text and encodes the translation', () => {
+    const html = '<img src="a.png" alt="A picture"><a href="/x" title=Short>Link</a>';
+    const segments = extractSegments(parseHtml(html));
+    expect(segments.map(segment => segment.text)).toEqual(expect.arrayContaining(['A picture', 'Short']));
+
+    expect(rebuild(html, text => (text === 'A picture' ? 'Un "dibujo" & más' : text === 'Short' ? 'Muy corto' : text)))
+      .toBe('<img src="a.png" alt="Un &quot;dibujo&quot; &amp; más"><a href="/x" title="Muy corto">Link</a>');
+  });
+
+  it('leaves scripts and styles alone', () => {
+    const html = '<script>var text = "Hello";</script><style>p { color: red }</style><p>Hi</p>';
+    const segments = extractSegments(parseHtml(html));
+    expect(segments.map(segment => segment.text)).toEqual(['Hi']);
+  });
+});
@@ -0,0 +1,530 @@
+// Lightweight HTML parser that keeps source offsets for every node, so a
+// translated document can be rebuilt byte-for-byte outside the translated text.
+// The browser's DOMParser normalizes quotes, entities and whitespace on
+// serialization, which is why it is not used here.
+
+import { DEFAULT_EXCLUSION_RULES, ExclusionRules, findExcludedRegions, isExcludedElement } from './exclusionRules';
+import {
+  DEFAULT_SHORTCODE_TEXT_ATTRIBUTES,
+  encodeShortcodeAttribute,
+  findClosingShortcode,
+  findShortcodeTags,
+  RAW_SHORTCODES,
+  ShortcodeTag,
+  ShortcodeTextAttributes,
+} from './shortcodeParser';
+
+export type HtmlAttribute = {
+  name: string;
+  value: string;
+  // Offsets of the raw value in the source, -1 when the attribute has no value
+  valueStart: number;
+  valueEnd: number;
+  quote: '"' | "'" | '';
+};
+
+export type HtmlElement = {
+  type: 'element';
+  tagName: string;
+  attributes: HtmlAttribute[];
+  start: number;
+  openEnd: number;
+  // Start of the closing tag, undefined for void/self-closing/unclosed elements
+  closeStart?: number;
+  end: number;
+  children: HtmlNode[];
+  parent: HtmlElement | null;
+};
+
+export type HtmlText = {
+  type: 'text';
+  start: number;
+  end: number;
+  parent: HtmlElement;
+};
+
+// Comments, doctypes and stray closing tags: always kept verbatim
+export type HtmlMarkup = {
+  type: 'markup';
+  start: number;
+  end: number;
+  parent: HtmlElement;
+};
+
+// A shortcode tag in text. Shortcodes with non-text content span from their
+// opening to their closing tag.
+export type HtmlShortcode = ShortcodeTag & {
+  type: 'shortcode';
+  parent: HtmlElement;
+};
+
+export type HtmlNode = HtmlElement | HtmlText | HtmlMarkup | HtmlShortcode;
+
+export type HtmlDocument = {
+  source: string;
+  root: HtmlElement;
+};
+
+// A piece of human-readable text to translate, with inline markup
+// replaced by {{HTML_ELEMENT_n}} placeholders
+export type HtmlSegment = {
+  id: number;
+  kind: 'text' | 'attribute' | 'shortcode-attribute';
+  text: string;
+  start: number;
+  end: number;
+  placeholders: Array<{ placeholder: string; start: number; end: number }>;
+  // Text inside <pre> keeps its line breaks and indentation
+  preserveWhitespace: boolean;
+  // Quote character of the attribute the text came from
+  quote?: '"' | "'" | '';
+};
+
+// User settings that decide what extraction hands to the translator
+export type ExtractionRules = {
+  shortcodeAttributes: ShortcodeTextAttributes;
+  exclusions: ExclusionRules;
+};
+
+export const DEFAULT_EXTRACTION_RULES: ExtractionRules = {
+  shortcodeAttributes: DEFAULT_SHORTCODE_TEXT_ATTRIBUTES,
+  exclusions: DEFAULT_EXCLUSION_RULES,
+};
+
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr',
+]);
+
+// Elements whose content is not HTML and runs until the matching close tag
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style', 'textarea', 'title']);
+
+// Phrasing elements that are translated together with the surrounding text
+const INLINE_ELEMENTS = new Set([
+  'a', 'abbr', 'b', 'bdi', 'bdo', 'cite', 'code', 'data', 'del', 'dfn', 'em', 'font', 'i', 'ins',
+  'kbd', 'label', 'mark', 'q', 's', 'samp', 'small', 'span', 'strong', 'sub', 'sup', 'time', 'u', 'var',
+]);
+
+// Elements that are never translated and move as a single opaque unit
+const PROTECTED_ELEMENTS = new Set([
+  'audio', 'canvas', 'embed', 'iframe', 'math', 'noscript', 'object', 'script', 'select',
+  'style', 'svg', 'template', 'textarea', 'video',
+]);
+
+// Attributes whose values are human-readable text
+const TRANSLATABLE_ATTRIBUTES = new Set(['alt', 'title', 'aria-label', 'placeholder']);
+
+// Elements implicitly closed when a sibling of the same kind opens
+const SELF_NESTING_FORBIDDEN = new Set(['p', 'li', 'dt', 'dd', 'tr', 'td', 'th', 'option']);
+
+const TAG_REGEX = /<!--[\s\S]*?(?:-->|$)|<![^>]*>|<\/([a-zA-Z][\w:-]*)\s*>|<([a-zA-Z][\w:-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/g;
+const ATTRIBUTE_REGEX = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+const parseAttributes = (raw: string, offset: number): HtmlAttribute[] => {
+  const attributes: HtmlAttribute[] = [];
+  let match: RegExpExecArray | null;
+  ATTRIBUTE_REGEX.lastIndex = 0;
+
+  while ((match = ATTRIBUTE_REGEX.exec(raw)) !== null) {
+    const [whole, name, doubleQuoted, singleQuoted, unquoted] = match;
+    const value = doubleQuoted ?? singleQuoted ?? unquoted;
+
+    if (value === undefined) {
+      attributes.push({ name: name.toLowerCase(), value: '', valueStart: -1, valueEnd: -1, quote: '' });
+      continue;
+    }
+
+    const quote = doubleQuoted !== undefined ? '"' : singleQuoted !== undefined ? "'" : '';
+    // The value is always the tail of the match, minus the closing quote
+    const valueEnd = offset + match.index + whole.length - quote.length;
+    attributes.push({
+      name: name.toLowerCase(),
+      value,
+      valueStart: valueEnd - value.length,
+      valueEnd,
+      quote,
+    });
+  }
+
+  return attributes;
+};
+
+export const parseHtml = (source: string): HtmlDocument => {
+  const root: HtmlElement = {
+    type: 'element',
+    tagName: '#root',
+    attributes: [],
+    start: 0,
+    openEnd: 0,
+    end: source.length,
+    children: [],
+    parent: null,
+  };
+  const stack: HtmlElement[] = [root];
+  const current = () => stack[stack.length - 1];
+
+  const closeTop = (end: number) => {
+    const element = stack.pop()!;
+    element.end = end;
+  };
+
+  // Text with its shortcode tags split out. Returns where parsing continues,
+  // which is past `end` when a raw shortcode encloses later markup.
+  const addText = (start: number, end: number): number => {
+    let pos = start;
+    for (const tag of findShortcodeTags(source, start, end)) {
+      if (tag.start < pos) continue;
+      if (tag.start > pos) {
+        current().children.push({ type: 'text', start: pos, end: tag.start, parent: current() });
+      }
+      const close = !tag.closing && !tag.selfClosing && !tag.escaped && RAW_SHORTCODES.has(tag.name)
+        ? findClosingShortcode(source, tag.name, tag.end)
+        : null;
+      current().children.push({ ...tag, type: 'shortcode', end: close ? close.end : tag.end, parent: current() });
+      pos = close ? close.end : tag.end;
+      if (pos >= end) return pos;
+    }
+    if (end > pos) {
+      current().children.push({ type: 'text', start: pos, end, parent: current() });
+    }
+    return end;
+  };
+
+  let pos = 0;
+  let match: RegExpExecArray | null;
+  TAG_REGEX.lastIndex = 0;
+
+  while ((match = TAG_REGEX.exec(source)) !== null) {
+    if (match.index > pos) {
+      pos = addText(pos, match.index);
+      if (pos > match.index) {
+        TAG_REGEX.lastIndex = pos;
+        continue;
+      }
+    }
+    const tagEnd = match.index + match[0].length;
+    pos = tagEnd;
+    const [, closingName, openingName, rawAttributes] = match;
+
+    if (closingName) {
+      const name = closingName.toLowerCase();
+      const depth = stack.map(el => el.tagName).lastIndexOf(name);
+      if (depth > 0) {
+        // Anything still open above the match was implicitly closed
+        while (stack.length - 1 > depth) {
+          closeTop(match.index);
+        }
+        const element = current();
+        element.closeStart = match.index;
+        closeTop(tagEnd);
+      } else {
+        current().children.push({ type: 'markup', start: match.index, end: tagEnd, parent: current() });
+      }
+    } else if (openingName) {
+      const name = openingName.toLowerCase();
+      const top = current();
+
+      if (top.tagName === name && SELF_NESTING_FORBIDDEN.has(name)) {
+        closeTop(match.index);
+      } else if (top.tagName === 'p' && !INLINE_ELEMENTS.has(name) && !VOID_ELEMENTS.has(name) && !PROTECTED_ELEMENTS.has(name)) {
+        // A block element cannot live inside a paragraph
+        closeTop(match.index);
+      }
+
+      const parent = current();
+      const element: HtmlElement = {
+        type: 'element',
+        tagName: name,
+        attributes: parseAttributes(rawAttributes, match.index + 1 + openingName.length),
+        start: match.index,
+        openEnd: tagEnd,
+        end: tagEnd,
+        children: [],
+        parent,
+      };
+      parent.children.push(element);
+
+      if (VOID_ELEMENTS.has(name) || rawAttributes.trim().endsWith('/')) {
+        continue;
+      }
+
+      if (RAW_TEXT_ELEMENTS.has(name)) {
+        const closeRegex = new RegExp(`</${name}\\s*>`, 'ig');
+        closeRegex.lastIndex = tagEnd;
+        const close = closeRegex.exec(source);
+        const contentEnd = close ? close.index : source.length;
+        if (contentEnd > tagEnd) {
+          element.children.push({ type: 'text', start: tagEnd, end: contentEnd, parent: element });
+        }
+        if (close) {
+          element.closeStart = close.index;
+          element.end = close.index + close[0].length;
+        } else {
+          element.end = source.length;
+        }
+        TAG_REGEX.lastIndex = element.end;
+        pos = element.end;
+        continue;
+      }
+
+      stack.push(element);
+    } else {
+      current().children.push({ type: 'markup', start: match.index, end: tagEnd, parent: current() });
+    }
+  }
+
+  if (pos < source.length) {
+    addText(pos, source.length);
+  }
+  while (stack.length > 1) {
+    closeTop(source.length);
+  }
+
+  return { source, root };
+};
+
+// Decode HTML entities into plain text using the browser's parser
+export const decodeEntities = (text: string): string => {
+  if (!text.includes('&')) return text;
+  const textarea = document.createElement('textarea');
+  textarea.innerHTML = text;
+  return textarea.value;
+};
+
+const encodeText = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// Values without quotes get some, so translated text with spaces stays one value
+const encodeAttribute = (text: string, quote: '"' | "'" | ''): string => {
+  const encoded = encodeText(text);
+  if (quote === "'") return encoded.replace(/'/g, '&#039;');
+  const doubleQuoted = encoded.replace(/"/g, '&quot;');
+  return quote === '' ? `"${doubleQuoted}"` : doubleQuoted;
+};
+
+const isProtected = (node: HtmlNode): boolean =>
+  node.type === 'element' && PROTECTED_ELEMENTS.has(node.tagName);
+
+const containsBlock = (element: HtmlElement): boolean =>
+  element.children.some(child => {
+    if (child.type !== 'element') return false;
+    if (INLINE_ELEMENTS.has(child.tagName)) return containsBlock(child);
+    return !VOID_ELEMENTS.has(child.tagName) && !PROTECTED_ELEMENTS.has(child.tagName);
+  });
+
+// Whether a node flows inline with the text around it
+const isInline = (node: HtmlNode): boolean => {
+  if (node.type !== 'element') return true;
+  if (VOID_ELEMENTS.has(node.tagName) || PROTECTED_ELEMENTS.has(node.tagName)) return true;
+  return INLINE_ELEMENTS.has(node.tagName) && !containsBlock(node);
+};
+
+const isInsidePre = (node: HtmlNode): boolean => {
+  let parent = node.parent;
+  while (parent) {
+    if (parent.tagName === 'pre') return true;
+    parent = parent.parent;
+  }
+  return false;
+};
+
+// Split a document into the segments a translator should see. Excluded
+// elements and marked regions move as opaque placeholders, and shortcode
+// attributes are translated only when registered as text.
+export const extractSegments = (doc: HtmlDocument, rules: ExtractionRules = DEFAULT_EXTRACTION_RULES): HtmlSegment[] => {
+  const { source } = doc;
+  const { shortcodeAttributes, exclusions } = rules;
+  const segments: HtmlSegment[] = [];
+  const regions = findExcludedRegions(source, exclusions.marker);
+  let placeholderCount = 0;
+
+  const nextPlaceholder = () => `{{HTML_ELEMENT_${placeholderCount++}}}`;
+
+  // Nothing of an excluded node, attributes included, is translated
+  const isExcluded = (node: HtmlNode): boolean =>
+    isProtected(node)
+    || regions.some(region => node.start >= region.start && node.start < region.end)
+    || (node.type === 'element' && isExcludedElement(node.tagName, node.attributes, exclusions));
+
+  const hasText = (node: HtmlNode): boolean => {
+    if (isExcluded(node)) return false;
+    if (node.type === 'text') return source.slice(node.start, node.end).trim().length > 0;
+    if (node.type === 'element' && !VOID_ELEMENTS.has(node.tagName)) {
+      return node.children.some(hasText);
+    }
+    return false;
+  };
+
+  const isTextAttribute = (node: HtmlElement | HtmlShortcode, name: string) =>
+    node.type === 'element' ? TRANSLATABLE_ATTRIBUTES.has(name) : shortcodeAttributes[node.name]?.includes(name);
+
+  const collectAttributes = (node: HtmlElement | HtmlShortcode) => {
+    node.attributes.forEach(attribute => {
+      if (!isTextAttribute(node, attribute.name) || attribute.valueStart < 0) return;
+      const text = decodeEntities(attribute.value).trim();
+      if (!text) return;
+      segments.push({
+        id: segments.length,
+        kind: node.type === 'element' ? 'attribute' : 'shortcode-attribute',
+        text,
+        start: attribute.valueStart,
+        end: attribute.valueEnd,
+        placeholders: [],
+        preserveWhitespace: false,
+        quote: attribute.quote,
+      });
+    });
+  };
+
+  // Attributes of elements that are not part of any text run
+  const collectAttributesDeep = (node: HtmlNode) => {
+    if (isExcluded(node)) return;
+    if (node.type === 'shortcode') collectAttributes(node);
+    if (node.type !== 'element') return;
+    collectAttributes(node);
+    node.children.forEach(collectAttributesDeep);
+  };
+
+  const flushRun = (run: HtmlNode[]) => {
+    if (run.length === 0) return;
+
+    if (!run.some(hasText)) {
+      run.forEach(collectAttributesDeep);
+      return;
+    }
+
+    const preserveWhitespace = isInsidePre(run[0]);
+    const placeholders: HtmlSegment['placeholders'] = [];
+    // Attribute segments found inside the run are added after the run itself
+    const nestedElements: Array<HtmlElement | HtmlShortcode> = [];
+    let text = '';
+
+    const addPlaceholder = (start: number, end: number) => {
+      const placeholder = nextPlaceholder();
+      placeholders.push({ placeholder, start, end });
+      text += placeholder;
+    };
+
+    const walk = (node: HtmlNode) => {
+      if (isExcluded(node)) {
+        addPlaceholder(node.start, node.end);
+      } else if (node.type === 'text') {
+        text += decodeEntities(source.slice(node.start, node.end));
+      } else if (node.type === 'markup' || node.type === 'shortcode' || VOID_ELEMENTS.has(node.tagName)) {
+        addPlaceholder(node.start, node.end);
+        if (node.type !== 'markup') nestedElements.push(node);
+      } else {
+        nestedElements.push(node);
+        addPlaceholder(node.start, node.openEnd);
+        node.children.forEach(walk);
+        if (node.closeStart !== undefined) {
+          addPlaceholder(node.closeStart, node.end);
+        }
+      }
+    };
+    run.forEach(walk);
+
+    // Leading and trailing whitespace stays in the source untouched
+    let start = run[0].start;
+    let end = run[run.length - 1].end;
+    const first = run[0];
+    const last = run[run.length - 1];
+    if (first.type === 'text' && !isExcluded(first)) {
+      const raw = source.slice(first.start, first.end);
+      start += raw.length - raw.trimStart().length;
+    }
+    if (last.type === 'text' && !isExcluded(last)) {
+      const raw = source.slice(last.start, last.end);
+      end -= raw.length - raw.trimEnd().length;
+    }
+
+    segments.push({
+      id: segments.length,
+      kind: 'text',
+      text: preserveWhitespace ? text.trim() : text.replace(/\s+/g, ' ').trim(),
+      start,
+      end,
+      placeholders,
+      preserveWhitespace,
+    });
+    nestedElements.forEach(collectAttributes);
+  };
+
+  const walkContainer = (container: HtmlElement) => {
+    let run: HtmlNode[] = [];
+
+    container.children.forEach(child => {
+      if (isInline(child)) {
+        run.push(child);
+        return;
+      }
+      flushRun(run);
+      run = [];
+
+      const element = child as HtmlElement;
+      if (!isExcluded(element)) {
+        collectAttributes(element);
+        walkContainer(element);
+      }
+    });
+
+    flushRun(run);
+  };
+
+  walkContainer(doc.root);
+  return segments;
+};
+
+// Rebuild the document, replacing each segment with its translation.
+// Segments without a translation keep their source bytes.
+export const rebuildHtml = (
+  doc: HtmlDocument,
+  segments: HtmlSegment[],
+  translations: Map<number, string>
+): string => {
+  const { source } = doc;
+  // Outer segments first, so nested attribute segments are rendered through them
+  const ordered = [...segments].sort((a, b) => a.start - b.start || b.end - a.end);
+
+  const renderRange = (start: number, end: number): string => {
+    let output = '';
+    let pos = start;
+
+    for (const segment of ordered) {
+      if (segment.start < pos || segment.end > end) continue;
+      if (segment.start >= end) break;
+      output += source.slice(pos, segment.start) + renderSegment(segment);
+      pos = segment.end;
+    }
+
+    return output + source.slice(pos, end);
+  };
+
+  const renderSegment = (segment: HtmlSegment): string => {
+    const translated = translations.get(segment.id);
+    if (translated === undefined) {
+      // Keep the source, but still render attribute segments nested in its markup
+      let output = '';
+      let pos = segment.start;
+      segment.placeholders.forEach(({ start, end }) => {
+        output += source.slice(pos, start) + renderRange(start, end);
+        pos = end;
+      });
+      return output + source.slice(pos, segment.end);
+    }
+
+    if (segment.kind === 'attribute') {
+      return encodeAttribute(translated, segment.quote ?? '"');
+    }
+    if (segment.kind === 'shortcode-attribute') {
+      return encodeShortcodeAttribute(translated, segment.quote ?? '"');
+    }
+
+    let output = encodeText(translated);
+    segment.placeholders.forEach(({ placeholder, start, end }) => {
+      output = output.replace(placeholder, () => renderRange(start, end));
+    });
+    return output;
+  };
+
+  return renderRange(0, source.length);
+};
@@ -0,0 +1,131 @@
+import { ProviderId } from './providers';
+
+// A provider API key stored in the vault
+export type VaultKey = {
+  id: string;
+  providerId: ProviderId;
+  label: string;
+  key: string;
+  createdAt: string;
+  lastTestedAt?: string;
+  lastTestOk?: boolean;
+};
+
+// Shape of the encrypted vault as persisted in localStorage
+type StoredVault = {
+  version: 1;
+  salt: string;
+  iv: string;
+  data: string;
+};
+
+const STORAGE_KEY = 'translate-tales.key-vault';
+const PBKDF2_ITERATIONS = 250000;
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array => {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+const readStoredVault = (): StoredVault | null => {
+  const raw = localStorage.getItem(STORAGE_KEY);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as StoredVault;
+  } catch (error) {
+    console.error('Corrupted key vault in storage:', error);
+    return null;
+  }
+};
+
+// Derive an AES-GCM key from the user's passphrase
+const deriveKey = async (passphrase: string, salt: Uint8Array): Promise<CryptoKey> => {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+// Handle to an unlocked vault; the passphrase itself is never kept
+export type VaultSession = {
+  cryptoKey: CryptoKey;
+  salt: Uint8Array;
+};
+
+export const vaultExists = (): boolean => readStoredVault() !== null;
+
+export const saveVault = async (session: VaultSession, keys: VaultKey[]): Promise<void> => {
+  // A fresh IV for every write, as required by AES-GCM
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const plaintext = new TextEncoder().encode(JSON.stringify(keys));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, session.cryptoKey, plaintext);
+
+  const stored: StoredVault = {
+    version: 1,
+    salt: toBase64(session.salt),
+    iv: toBase64(iv),
+    data: toBase64(new Uint8Array(ciphertext)),
+  };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+};
+
+export const createVault = async (passphrase: string): Promise<VaultSession> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const session = { cryptoKey: await deriveKey(passphrase, salt), salt };
+  await saveVault(session, []);
+  return session;
+};
+
+export const unlockVault = async (passphrase: string): Promise<{ session: VaultSession, keys: VaultKey[] }> => {
+  const stored = readStoredVault();
+  if (!stored) {
+    throw new Error('No key vault has been created yet');
+  }
+
+  const salt = fromBase64(stored.salt);
+  const cryptoKey = await deriveKey(passphrase, salt);
+
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(stored.iv) },
+      cryptoKey,
+      fromBase64(stored.data)
+    );
+    const keys = JSON.parse(new TextDecoder().decode(plaintext)) as VaultKey[];
+    return { session: { cryptoKey, salt }, keys };
+  } catch {
+    // AES-GCM authentication fails when the passphrase is wrong
+    throw new Error('Incorrect passphrase');
+  }
+};
+
+// Wipe the vault entirely, e.g. when the passphrase was forgotten
+export const deleteVault = (): void => {
+  localStorage.removeItem(STORAGE_KEY);
+};
+
+export const maskKey = (key: string): string => {
+  if (key.length <= 8) return '••••••••';
+  return `${key.slice(0, 4)}••••${key.slice(-4)}`;
+};
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { isSameLanguage } from './languageDetection';
+
+describe('isSameLanguage', () => {
+  it.each([
+    ['en', 'en'],
+    ['EN', 'en'],
+    ['pt-BR', 'pt'],
+    ['zh-Hans', 'zh'],
+    ['zh-Hant', 'zh-hant'],
+  ])('counts %s text as already in %s', (detected, target) => {
+    expect(isSameLanguage(detected, target)).toBe(true);
+  });
+
+  it.each([
+    [null, 'en'],
+    ['en', 'de'],
+    ['pt', 'pt-BR'],
+    ['es', 'es-419'],
+    ['zh', 'zh-Hant'],
+    ['zh-Hans', 'zh-Hant'],
+    ['nb', 'n'],
+  ])('translates %s text into %s', (detected, target) => {
+    expect(isSameLanguage(detected, target)).toBe(false);
+  });
+});
@@ -0,0 +1,167 @@
+// Offline source language detection. Non-Latin scripts are recognised by
+// their characters, Latin-script languages by their most frequent function
+// words. Results are BCP-47 tags; regional variants (pt-BR vs pt-PT) are not
+// told apart, Simplified and Traditional Chinese are.
+
+import { extractSegments, parseHtml } from './htmlParser';
+import { matchesLanguage } from './localeCatalog';
+
+export type DetectedLanguage = {
+  // Dominant language, null when there isn't enough text to tell
+  language: string | null;
+  // 0–1, how clearly the dominant language won
+  confidence: number;
+  // Every language covering a noticeable share of the text, dominant first
+  languages: string[];
+  mixed: boolean;
+};
+
+const UNKNOWN: DetectedLanguage = { language: null, confidence: 0, languages: [], mixed: false };
+
+// Shorter texts are reported as unknown rather than guessed
+const MIN_LETTERS = 12;
+
+// Share of the text a second language needs before a post counts as mixed
+const MIXED_THRESHOLD = 0.2;
+
+const SCRIPT_LANGUAGES: Array<{ language: string; regex: RegExp }> = [
+  { language: 'ko', regex: /[\uac00-\ud7af\u1100-\u11ff]/g },
+  { language: 'ja', regex: /[\u3040-\u30ff]/g },
+  { language: 'zh', regex: /[\u3400-\u9fff]/g },
+  { language: 'ar', regex: /[\u0600-\u06ff\u0750-\u077f]/g },
+  { language: 'he', regex: /[\u0590-\u05ff]/g },
+  { language: 'ru', regex: /[\u0400-\u04ff]/g },
+  { language: 'el', regex: /[\u0370-\u03ff]/g },
+  { language: 'th', regex: /[\u0e00-\u0e7f]/g },
+  { language: 'hi', regex: /[\u0900-\u097f]/g },
+];
+
+// Letters that single out a language sharing its script with a more common one
+const SCRIPT_REFINEMENTS: Record<string, Array<{ language: string; regex: RegExp }>> = {
+  ar: [
+    { language: 'ur', regex: /[ٹڈڑںےۓ]/ },
+    { language: 'fa', regex: /[پچژگ]/ },
+  ],
+  ru: [
+    { language: 'uk', regex: /[іїєґ]/i },
+    { language: 'sr', regex: /[ђћџљњ]/i },
+  ],
+};
+
+// Frequent characters that only exist in one of the two Chinese scripts
+const SIMPLIFIED_CHARACTERS = /[这们国说时会来对发学经动过为没还进样从现实问题边关开见电话让书车东买卖]/g;
+const TRADITIONAL_CHARACTERS = /[這們國說時會來對發學經動過為沒還進樣從現實問題邊關開見電話讓書車東買賣]/g;
+
+const STOPWORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'of', 'to', 'is', 'in', 'that', 'it', 'for', 'with', 'was', 'on', 'are', 'you', 'this', 'be', 'have', 'not', 'but', 'from', 'they', 'which', 'or', 'will', 'can'],
+  es: ['el', 'la', 'de', 'que', 'y', 'en', 'los', 'las', 'del', 'se', 'por', 'con', 'una', 'para', 'es', 'su', 'al', 'lo', 'como', 'más', 'pero', 'sus', 'muy', 'también', 'está'],
+  fr: ['le', 'la', 'les', 'de', 'des', 'et', 'est', 'un', 'une', 'du', 'que', 'qui', 'dans', 'pour', 'pas', 'sur', 'au', 'avec', 'ce', 'il', 'sont', 'mais', 'nous', 'vous', 'aux'],
+  de: ['der', 'die', 'und', 'das', 'ist', 'nicht', 'zu', 'den', 'mit', 'von', 'sich', 'des', 'auf', 'für', 'ein', 'eine', 'dem', 'auch', 'es', 'an', 'wird', 'sie', 'wir', 'oder', 'bei'],
+  it: ['il', 'di', 'che', 'la', 'e', 'per', 'un', 'una', 'non', 'del', 'della', 'le', 'sono', 'con', 'gli', 'si', 'da', 'nel', 'alla', 'anche', 'come', 'più', 'questo', 'ma', 'è'],
+  pt: ['de', 'que', 'o', 'a', 'e', 'do', 'da', 'em', 'um', 'para', 'com', 'não', 'uma', 'os', 'no', 'na', 'se', 'por', 'mais', 'as', 'dos', 'como', 'mas', 'foi', 'ao', 'são', 'também'],
+  nl: ['de', 'het', 'een', 'en', 'van', 'is', 'dat', 'op', 'te', 'zijn', 'voor', 'met', 'niet', 'aan', 'er', 'maar', 'ook', 'als', 'bij', 'nog', 'wordt', 'dit', 'naar', 'worden', 'kan'],
+  pl: ['i', 'w', 'nie', 'na', 'się', 'z', 'do', 'to', 'że', 'jest', 'jak', 'o', 'po', 'tak', 'ale', 'od', 'za', 'jego', 'przez', 'są', 'dla', 'czy', 'już', 'tylko', 'może'],
+  tr: ['ve', 'bir', 'bu', 'da', 'de', 'için', 'ile', 'çok', 'daha', 'olarak', 'gibi', 'ne', 'en', 'değil', 'olan', 'ama', 'sonra', 'kadar', 'var', 'her', 'mı', 'mi', 'ya', 'şey', 'ben'],
+  sv: ['och', 'att', 'det', 'som', 'en', 'på', 'är', 'av', 'för', 'med', 'till', 'den', 'har', 'inte', 'om', 'ett', 'de', 'var', 'jag', 'men', 'så', 'vi', 'från', 'kan', 'eller'],
+};
+
+const STOPWORD_SETS = Object.fromEntries(
+  Object.entries(STOPWORDS).map(([language, words]) => [language, new Set(words)])
+);
+
+const WORD_REGEX = /\p{L}+/gu;
+const URL_REGEX = /(?:https?:\/\/|www\.)\S+/gi;
+
+type Scores = Map<string, number>;
+
+const addScore = (scores: Scores, language: string, amount: number) =>
+  scores.set(language, (scores.get(language) ?? 0) + amount);
+
+// Weighted votes per language for one piece of plain text
+const scoreText = (text: string): Scores => {
+  const scores: Scores = new Map();
+  const cleaned = text.replace(URL_REGEX, ' ');
+
+  SCRIPT_LANGUAGES.forEach(({ language, regex }) => {
+    const count = cleaned.match(regex)?.length ?? 0;
+    if (count === 0) return;
+    const refined = SCRIPT_REFINEMENTS[language]?.find(r => r.regex.test(cleaned))?.language ?? language;
+    addScore(scores, refined, count);
+  });
+
+  // Kana means Japanese even though it is mixed with Han characters
+  if (scores.has('ja') && scores.has('zh')) {
+    addScore(scores, 'ja', scores.get('zh')!);
+    scores.delete('zh');
+  }
+  if (scores.has('zh')) {
+    const simplified = cleaned.match(SIMPLIFIED_CHARACTERS)?.length ?? 0;
+    const traditional = cleaned.match(TRADITIONAL_CHARACTERS)?.length ?? 0;
+    if (simplified !== traditional) {
+      addScore(scores, simplified > traditional ? 'zh-Hans' : 'zh-Hant', scores.get('zh')!);
+      scores.delete('zh');
+    }
+  }
+
+  // Latin-script words vote for every language they are a function word in;
+  // each word is worth its length so the vote is comparable to character counts
+  const latinWords = (cleaned.match(WORD_REGEX) ?? []).filter(word => /^\p{Script=Latin}+$/u.test(word));
+  const latinLetters = latinWords.reduce((sum, word) => sum + word.length, 0);
+  if (latinLetters > 0) {
+    const hits: Scores = new Map();
+    latinWords.forEach(word => {
+      const lower = word.toLowerCase();
+      Object.entries(STOPWORD_SETS).forEach(([language, words]) => {
+        if (words.has(lower)) addScore(hits, language, 1);
+      });
+    });
+    const best = [...hits.entries()].sort((a, b) => b[1] - a[1])[0];
+    if (best) addScore(scores, best[0], latinLetters);
+  }
+
+  return scores;
+};
+
+const letterCount = (text: string): number => text.replace(URL_REGEX, ' ').match(WORD_REGEX)?.join('').length ?? 0;
+
+const summarize = (scores: Scores): DetectedLanguage => {
+  const total = [...scores.values()].reduce((sum, value) => sum + value, 0);
+  if (total === 0) return UNKNOWN;
+
+  const ranked = [...scores.entries()].sort((a, b) => b[1] - a[1]);
+  const languages = ranked.filter(([, score]) => score / total >= MIXED_THRESHOLD).map(([language]) => language);
+  return {
+    language: ranked[0][0],
+    confidence: ranked[0][1] / total,
+    languages,
+    mixed: languages.length > 1,
+  };
+};
+
+// Language of a piece of plain text
+export const detectLanguage = (text: string): DetectedLanguage => {
+  if (letterCount(text) < MIN_LETTERS) return UNKNOWN;
+  return summarize(scoreText(text));
+};
+
+// Language of an HTML document or fragment, looking only at its readable
+// text. Every text segment votes separately, so a post with whole paragraphs
+// in another language is reported as mixed.
+export const detectHtmlLanguage = (html: string): DetectedLanguage => {
+  const segments = extractSegments(parseHtml(html)).filter(segment => segment.kind === 'text');
+  const scores: Scores = new Map();
+
+  segments.forEach(segment => {
+    const text = segment.text.replace(/\{\{HTML_ELEMENT_\d+\}\}/g, ' ');
+    if (letterCount(text) < MIN_LETTERS) return;
+    scoreText(text).forEach((score, language) => addScore(scores, language, score));
+  });
+
+  return summarize(scores);
+};
+
+// Whether text detected as `detected` is already in `target`. Detection can't
+// tell regional variants apart, so "pt" text is only known to be in a bare
+// "pt" target, never in "pt-BR"; "zh-Hans" text is in "zh" and "zh-Hans".
+export const isSameLanguage = (detected: string | null, target: string): boolean =>
+  detected !== null && (detected.toLowerCase() === target.toLowerCase() || (!target.includes('-') && matchesLanguage(detected, target)));
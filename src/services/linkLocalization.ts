@@ -0,0 +1,236 @@
+// Internal links of translated posts follow the reader's language: links to
+// posts of the connected site are pointed at the translation of that post.
+// Known translations are kept per site in localStorage; links to posts not
+// translated yet are remembered and fixed once the translation exists.
+
+import { HtmlElement, HtmlNode, decodeEntities, parseHtml } from './htmlParser';
+import { findLocale, Locale } from './localeCatalog';
+import {
+  fetchPostSource,
+  findPostBySlug,
+  PostLink,
+  updatePostContent,
+  validateSiteUrl,
+  WordPressCredentials,
+} from './wordpressService';
+import { loadJson } from './utils';
+
+// URL of every known translation by source post id, then language tag
+export type TranslationRegistry = Record<string, Record<string, string>>;
+
+// A link in a translated post whose target has no translation yet
+export type PendingLink = {
+  // The translated post containing the link
+  postId: number;
+  language: string;
+  // Source post the link points at
+  targetId: number;
+  href: string;
+};
+
+export type LinkResolver = {
+  // Source post a link points at, null for anything that isn't a post of the site
+  resolvePost: (href: string) => Promise<number | null>;
+  // URL of a post's translation, null while there is none
+  translationUrl: (postId: number, locale: Locale) => Promise<string | null>;
+};
+
+const REGISTRY_PREFIX = 'translate-tales.translations.';
+const PENDING_PREFIX = 'translate-tales.pending-links.';
+
+export const loadTranslationRegistry = (siteUrl: string): TranslationRegistry =>
+  loadJson(REGISTRY_PREFIX + siteUrl, {});
+
+export const recordTranslation = (siteUrl: string, sourcePostId: number, language: string, url: string): void => {
+  const registry = loadTranslationRegistry(siteUrl);
+  registry[sourcePostId] = { ...registry[sourcePostId], [language]: url };
+  localStorage.setItem(REGISTRY_PREFIX + siteUrl, JSON.stringify(registry));
+};
+
+export const loadPendingLinks = (siteUrl: string): PendingLink[] =>
+  loadJson(PENDING_PREFIX + siteUrl, []);
+
+const savePendingLinks = (siteUrl: string, links: PendingLink[]): void => {
+  localStorage.setItem(PENDING_PREFIX + siteUrl, JSON.stringify(links));
+};
+
+// Remember the unresolved links of a post; replaces what was pending for it
+export const setPendingLinks = (siteUrl: string, postId: number, links: PendingLink[]): void => {
+  savePendingLinks(siteUrl, [...loadPendingLinks(siteUrl).filter(link => link.postId !== postId), ...links]);
+};
+
+// Paths that are never posts
+const NON_POST_PATH_REGEX = /^\/(?:wp-content|wp-admin|wp-includes|wp-json|feed|category|tag|author|page)\//;
+
+const normalizeUrl = (url: URL): string => `${url.host}${url.pathname.replace(/\/$/, '')}`;
+
+// Lookups made through the resolver are cancelled along with `signal`
+export const createLinkResolver = (credentials: WordPressCredentials, posts: PostLink[], signal?: AbortSignal): LinkResolver => {
+  const site = new URL(validateSiteUrl(credentials.siteUrl) + '/');
+  const byUrl = new Map<string, PostLink>();
+  const bySlug = new Map<string, PostLink | null>();
+  const translations = new Map<string, string | null>();
+
+  const remember = (post: PostLink) => {
+    bySlug.set(post.slug, post);
+    try {
+      byUrl.set(normalizeUrl(new URL(post.link)), post);
+    } catch {
+      // Posts without a usable permalink can still be found by slug
+    }
+  };
+  posts.forEach(remember);
+
+  // Lookups are cached for the resolver's lifetime, misses included
+  const postBySlug = async (slug: string): Promise<PostLink | null> => {
+    if (!bySlug.has(slug)) {
+      try {
+        const post = await findPostBySlug(credentials, slug, 'publish', signal);
+        bySlug.set(slug, post);
+        if (post) remember(post);
+      } catch (error) {
+        // Not cached, so a later pass can try again
+        console.error('Post lookup failed:', error);
+        return null;
+      }
+    }
+    return bySlug.get(slug) ?? null;
+  };
+
+  const slugOf = (postId: number): string | undefined =>
+    [...bySlug.values()].find(post => post?.id === postId)?.slug;
+
+  return {
+    resolvePost: async (href) => {
+      let url: URL;
+      try {
+        url = new URL(decodeEntities(href), site);
+      } catch {
+        return null;
+      }
+      if (url.host !== site.host || !/^https?:$/.test(url.protocol)) return null;
+
+      // Plain permalinks: /?p=123
+      const id = url.searchParams.get('p');
+      if (id && /^\d+$/.test(id)) return Number(id);
+
+      const known = byUrl.get(normalizeUrl(url));
+      if (known) return known.id;
+
+      const path = url.pathname.slice(site.pathname.length - 1);
+      const slug = path.split('/').filter(Boolean).pop();
+      if (!slug || NON_POST_PATH_REGEX.test(path) || /\.\w+$/.test(slug)) return null;
+      return (await postBySlug(decodeURIComponent(slug)))?.id ?? null;
+    },
+
+    translationUrl: async (postId, locale) => {
+      const known = loadTranslationRegistry(credentials.siteUrl)[postId]?.[locale.tag];
+      if (known) return known;
+
+      // Translations made elsewhere are found by the slug they are published under
+      const cacheKey = `${postId}:${locale.tag}`;
+      if (!translations.has(cacheKey)) {
+        const slug = slugOf(postId);
+        const translation = slug ? await postBySlug(`${slug}-${locale.pluginSlug.toLowerCase()}`) : null;
+        if (translation) recordTranslation(credentials.siteUrl, postId, locale.tag, translation.link);
+        translations.set(cacheKey, translation?.link ?? null);
+      }
+      return translations.get(cacheKey) ?? null;
+    },
+  };
+};
+
+const escapeAttribute = (value: string, quote: string): string => {
+  const escaped = value.replace(/&/g, '&amp;');
+  return quote === "'" ? escaped.replace(/'/g, '&#39;') : escaped.replace(/"/g, '&quot;');
+};
+
+const collectAnchors = (node: HtmlNode, anchors: HtmlElement[]) => {
+  if (node.type !== 'element') return;
+  if (node.tagName === 'a') anchors.push(node);
+  node.children.forEach(child => collectAnchors(child, anchors));
+};
+
+// Point links to posts of the site at their translation. Everything else in
+// the HTML stays byte for byte; links without a translation are returned.
+// With `only`, just those hrefs are looked at.
+export const localizeLinks = async (
+  html: string,
+  locale: Locale,
+  resolver: LinkResolver,
+  only?: Set<string>
+): Promise<{ html: string, missing: Array<{ targetId: number, href: string }> }> => {
+  const doc = parseHtml(html);
+  const anchors: HtmlElement[] = [];
+  collectAnchors(doc.root, anchors);
+
+  const replacements: Array<{ start: number, end: number, value: string }> = [];
+  const missing: Array<{ targetId: number, href: string }> = [];
+
+  for (const anchor of anchors) {
+    const href = anchor.attributes.find(attribute => attribute.name === 'href');
+    if (!href || href.valueStart < 0 || href.value.startsWith('#')) continue;
+    if (only && !only.has(decodeEntities(href.value))) continue;
+
+    const targetId = await resolver.resolvePost(href.value);
+    if (targetId === null) continue;
+
+    const url = await resolver.translationUrl(targetId, locale);
+    if (!url) {
+      missing.push({ targetId, href: decodeEntities(href.value) });
+      continue;
+    }
+    // Jumps to a section keep working if the translation kept its anchors
+    const hash = decodeEntities(href.value).split('#')[1];
+    replacements.push({
+      start: href.valueStart,
+      end: href.valueEnd,
+      value: escapeAttribute(hash ? `${url.split('#')[0]}#${hash}` : url, href.quote),
+    });
+  }
+
+  const localized = replacements
+    .sort((a, b) => b.start - a.start)
+    .reduce((text, { start, end, value }) => text.slice(0, start) + value + text.slice(end), html);
+  return { html: localized, missing };
+};
+
+// Second pass over translated posts with links that had nowhere to go: posts
+// whose targets have been translated since are updated on the site.
+// Returns how many posts were updated; stops before the next write once
+// `signal` is aborted.
+export const fixPendingLinks = async (
+  credentials: WordPressCredentials,
+  resolver: LinkResolver,
+  locales: Locale[],
+  signal?: AbortSignal
+): Promise<number> => {
+  const pending = loadPendingLinks(credentials.siteUrl);
+  const postIds = [...new Set(pending.map(link => link.postId))];
+  let updated = 0;
+
+  for (const postId of postIds) {
+    if (signal?.aborted) break;
+    const links = pending.filter(link => link.postId === postId);
+    const locale = findLocale(locales, links[0].language);
+    const ready = await Promise.all(links.map(link => resolver.translationUrl(link.targetId, locale)));
+    if (!ready.some(Boolean)) continue;
+
+    try {
+      // Links localized the first time already point at translations
+      const source = await fetchPostSource(credentials, postId, signal);
+      const { html, missing } = await localizeLinks(source, locale, resolver, new Set(links.map(link => link.href)));
+      if (signal?.aborted) break;
+      if (html !== source) {
+        await updatePostContent(credentials, postId, html, signal);
+        updated++;
+      }
+      setPendingLinks(credentials.siteUrl, postId, missing.map(link => ({ ...link, postId, language: locale.tag })));
+    } catch (error) {
+      if (signal?.aborted) break;
+      console.error(`Failed to fix links of post ${postId}:`, error);
+    }
+  }
+
+  return updated;
+};
@@ -0,0 +1,101 @@
+// Target locales offered for translation. Every locale is identified by a full
+// BCP-47 tag (pt-BR, zh-Hant, es-419, ...); the catalog is editable and kept
+// in localStorage.
+
+export type Locale = {
+  // Canonical BCP-47 tag, used everywhere downstream
+  tag: string;
+  // Shown in the UI
+  name: string;
+  dir: 'ltr' | 'rtl';
+  // Language slug the multilingual plugin (Polylang, WPML) uses on the site
+  pluginSlug: string;
+  // How the language is named in prompts sent to LLM providers
+  promptLabel: string;
+};
+
+const STORAGE_KEY = 'translate-tales.locales';
+
+export const DEFAULT_LOCALES: Locale[] = [
+  { tag: 'zh-Hans', name: 'Chinese (Simplified)', dir: 'ltr', pluginSlug: 'zh', promptLabel: 'Simplified Chinese' },
+  { tag: 'zh-Hant', name: 'Chinese (Traditional)', dir: 'ltr', pluginSlug: 'zh-hant', promptLabel: 'Traditional Chinese' },
+  { tag: 'es', name: 'Spanish (Spain)', dir: 'ltr', pluginSlug: 'es', promptLabel: 'Spanish as written in Spain' },
+  { tag: 'es-419', name: 'Spanish (Latin America)', dir: 'ltr', pluginSlug: 'es-419', promptLabel: 'Latin American Spanish' },
+  { tag: 'fr', name: 'French', dir: 'ltr', pluginSlug: 'fr', promptLabel: 'French' },
+  { tag: 'de', name: 'German', dir: 'ltr', pluginSlug: 'de', promptLabel: 'German' },
+  { tag: 'it', name: 'Italian', dir: 'ltr', pluginSlug: 'it', promptLabel: 'Italian' },
+  { tag: 'ja', name: 'Japanese', dir: 'ltr', pluginSlug: 'ja', promptLabel: 'Japanese' },
+  { tag: 'ko', name: 'Korean', dir: 'ltr', pluginSlug: 'ko', promptLabel: 'Korean' },
+  { tag: 'pt-BR', name: 'Portuguese (Brazil)', dir: 'ltr', pluginSlug: 'pt-br', promptLabel: 'Brazilian Portuguese' },
+  { tag: 'pt-PT', name: 'Portuguese (Portugal)', dir: 'ltr', pluginSlug: 'pt', promptLabel: 'European Portuguese' },
+  { tag: 'ru', name: 'Russian', dir: 'ltr', pluginSlug: 'ru', promptLabel: 'Russian' },
+  { tag: 'ar', name: 'Arabic', dir: 'rtl', pluginSlug: 'ar', promptLabel: 'Modern Standard Arabic' },
+];
+
+// Languages written right to left unless a script subtag says otherwise
+const RTL_LANGUAGES = new Set(['ar', 'ckb', 'dv', 'fa', 'he', 'ps', 'sd', 'ug', 'ur', 'yi']);
+const RTL_SCRIPTS = new Set(['Arab', 'Hebr', 'Syrc', 'Thaa', 'Nkoo', 'Adlm']);
+const LTR_SCRIPTS = new Set(['Latn', 'Cyrl']);
+
+// Canonical form of a tag (e.g. "PT-br" → "pt-BR"), or null if it isn't valid BCP-47
+export const canonicalizeTag = (tag: string): string | null => {
+  try {
+    const [canonical] = Intl.getCanonicalLocales(tag.trim());
+    return canonical ?? null;
+  } catch {
+    return null;
+  }
+};
+
+export const guessDirection = (tag: string): Locale['dir'] => {
+  const [language, ...subtags] = tag.split('-');
+  const script = subtags.find(subtag => /^[A-Za-z]{4}$/.test(subtag));
+  if (script) {
+    const normalized = script[0].toUpperCase() + script.slice(1).toLowerCase();
+    if (RTL_SCRIPTS.has(normalized)) return 'rtl';
+    if (LTR_SCRIPTS.has(normalized)) return 'ltr';
+  }
+  return RTL_LANGUAGES.has(language.toLowerCase()) ? 'rtl' : 'ltr';
+};
+
+// A new catalog entry with sensible defaults for a tag
+export const createLocale = (tag: string, name?: string): Locale => ({
+  tag,
+  name: name || tag,
+  dir: guessDirection(tag),
+  pluginSlug: tag.toLowerCase(),
+  promptLabel: name || tag,
+});
+
+export const loadLocales = (): Locale[] => {
+  const raw = localStorage.getItem(STORAGE_KEY);
+  if (!raw) return DEFAULT_LOCALES;
+
+  try {
+    const stored = JSON.parse(raw);
+    return Array.isArray(stored) && stored.length > 0 ? stored : DEFAULT_LOCALES;
+  } catch (error) {
+    console.error('Corrupted locale catalog in storage:', error);
+    return DEFAULT_LOCALES;
+  }
+};
+
+export const saveLocales = (locales: Locale[]): void => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(locales));
+};
+
+export const resetLocales = (): void => {
+  localStorage.removeItem(STORAGE_KEY);
+};
+
+// Look a tag up in the catalog, falling back to a generated entry so callers
+// always get something usable
+export const findLocale = (locales: Locale[], tag: string): Locale =>
+  locales.find(locale => locale.tag === tag) ?? createLocale(tag);
+
+// True when `tag` is `range` or one of its regional/script variants (pt-BR is in pt)
+export const matchesLanguage = (tag: string, range: string): boolean => {
+  const a = tag.toLowerCase();
+  const b = range.toLowerCase();
+  return a === b || a.startsWith(`${b}-`);
+};
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { checkPlaceholders, repairPlaceholders } from './placeholderValidation';
+
+const SOURCE = 'Read {{HTML_ELEMENT_0}}the guide{{HTML_ELEMENT_1}} before you start';
+
+describe('checkPlaceholders', () => {
+  it('accepts a translation with every placeholder once, in any order', () => {
+    expect(checkPlaceholders(SOURCE, '{{HTML_ELEMENT_1}}x{{HTML_ELEMENT_0}} Lee la guía')).toEqual({ valid: true, missing: [], unexpected: [] });
+  });
+
+  it('reports missing and duplicated placeholders', () => {
+    const check = checkPlaceholders(SOURCE, 'Lee {{HTML_ELEMENT_0}}la guía{{HTML_ELEMENT_0}}');
+    expect(check.valid).toBe(false);
+    expect(check.missing).toEqual(['{{HTML_ELEMENT_1}}']);
+    expect(check.unexpected).toEqual(['{{HTML_ELEMENT_0}}']);
+  });
+
+  it.each([
+    '{{ HTML_ELEMENT_1 }}',
+    '{html_element_1}}',
+    '{{HTML_ELEMENT_1}',
+    '{{SEGMENT',
+    '{{HTML_EL',
+  ])('treats %s as a mangled placeholder', mangled => {
+    const check = checkPlaceholders(SOURCE, `Lee {{HTML_ELEMENT_0}}la guía{{HTML_ELEMENT_1}} antes ${mangled}`);
+    expect(check.valid).toBe(false);
+    expect(check.unexpected).toEqual([mangled]);
+  });
+});
+
+describe('repairPlaceholders', () => {
+  it('puts dropped placeholders back in order, on word boundaries', () => {
+    const repaired = repairPlaceholders(SOURCE, 'Lee la guía antes de empezar');
+    expect(repaired).not.toBeNull();
+    expect(checkPlaceholders(SOURCE, repaired!).valid).toBe(true);
+    expect(repaired!.indexOf('{{HTML_ELEMENT_0}}')).toBeLessThan(repaired!.indexOf('{{HTML_ELEMENT_1}}'));
+    expect(repaired!.replace(/\{\{HTML_ELEMENT_\d+\}\}/g, '')).toBe('Lee la guía antes de empezar');
+  });
+
+  it('replaces mangled placeholders', () => {
+    const repaired = repairPlaceholders(SOURCE, 'Lee {{ html_element_0 }}la guía{HTML_ELEMENT_1}} antes de empezar');
+    expect(repaired).not.toBeNull();
+    expect(checkPlaceholders(SOURCE, repaired!).valid).toBe(true);
+  });
+
+  it('gives up on empty answers and leftover braces', () => {
+    expect(repairPlaceholders(SOURCE, '  ')).toBeNull();
+    expect(repairPlaceholders(SOURCE, 'Lee la guía }} antes')).toBeNull();
+  });
+});
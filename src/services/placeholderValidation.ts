@@ -0,0 +1,93 @@
+// Checks that a translation kept every {{HTML_ELEMENT_n}} placeholder of its
+// source exactly once, and repairs translations that did not.
+
+const PLACEHOLDER_REGEX = /\{\{HTML_ELEMENT_\d+\}\}/g;
+
+// Placeholders and segment markers as models tend to rewrite them (spaces,
+// single braces, lowercase) or as cut-off answers leave them ("{{SEGMENT",
+// "{{HTML_ELEMENT_2}", a "{{" at the very end)
+export const MANGLED_PLACEHOLDER_REGEX =
+  /\{\{\s*(?:html[_ ]?element|segment)[_ ]?\d*\s*\}?\}?|\{\s*(?:html[_ ]?element|segment)[_ ]?\d+\s*\}\}?|\{\{[A-Z_\d]*$/gi;
+
+// How far a reinserted placeholder may move to land on a word boundary
+const MAX_SNAP_DISTANCE = 20;
+
+export const findPlaceholders = (text: string): string[] => text.match(PLACEHOLDER_REGEX) ?? [];
+
+export type PlaceholderCheck = {
+  valid: boolean;
+  missing: string[];
+  unexpected: string[];
+};
+
+// Compare the placeholder multisets of a source and its translation
+export const checkPlaceholders = (source: string, translation: string): PlaceholderCheck => {
+  const counts = new Map<string, number>();
+  findPlaceholders(source).forEach(p => counts.set(p, (counts.get(p) ?? 0) + 1));
+  findPlaceholders(translation).forEach(p => counts.set(p, (counts.get(p) ?? 0) - 1));
+
+  const missing: string[] = [];
+  const unexpected: string[] = [];
+  counts.forEach((count, placeholder) => {
+    for (let i = 0; i < count; i++) missing.push(placeholder);
+    for (let i = 0; i < -count; i++) unexpected.push(placeholder);
+  });
+
+  // Anything that still looks like a placeholder would be published as raw text
+  const leftovers = translation.replace(PLACEHOLDER_REGEX, '').match(MANGLED_PLACEHOLDER_REGEX) ?? [];
+
+  return {
+    valid: missing.length === 0 && unexpected.length === 0 && leftovers.length === 0,
+    missing,
+    unexpected: [...unexpected, ...leftovers],
+  };
+};
+
+const snapToWordBoundary = (text: string, position: number): number => {
+  const isBoundary = (p: number) => p <= 0 || p >= text.length || /\s/.test(text[p - 1]) || /\s/.test(text[p]);
+
+  for (let distance = 0; distance <= MAX_SNAP_DISTANCE; distance++) {
+    if (isBoundary(position - distance)) return Math.max(position - distance, 0);
+    if (isBoundary(position + distance)) return Math.min(position + distance, text.length);
+  }
+  // Scripts without spaces: any position is as good as another
+  return position;
+};
+
+// Strip whatever placeholders the model produced and put the source's
+// placeholders back at the same relative positions in the translated text.
+// Returns null when the translation cannot be repaired.
+export const repairPlaceholders = (source: string, translation: string): string | null => {
+  const text = translation.replace(MANGLED_PLACEHOLDER_REGEX, '').replace(/[ \t]{2,}/g, ' ');
+  const sourceText = source.replace(PLACEHOLDER_REGEX, '');
+
+  // Half-deleted placeholders or an empty answer can't be fixed reliably
+  if (/\{\{|\}\}/.test(text) || (sourceText.trim() && !text.trim())) {
+    return null;
+  }
+
+  const anchors: Array<{ placeholder: string; offset: number }> = [];
+  let plainLength = 0;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+  const regex = new RegExp(PLACEHOLDER_REGEX.source, 'g');
+  while ((match = regex.exec(source)) !== null) {
+    plainLength += match.index - lastIndex;
+    anchors.push({ placeholder: match[0], offset: plainLength });
+    lastIndex = match.index + match[0].length;
+  }
+  const sourceLength = Math.max(sourceText.length, 1);
+
+  let output = '';
+  let position = 0;
+  anchors.forEach(({ placeholder, offset }) => {
+    const target = Math.round((offset / sourceLength) * text.length);
+    // Never move backwards, so paired opening/closing tags keep their order
+    const snapped = Math.max(snapToWordBoundary(text, target), position);
+    output += text.slice(position, snapped) + placeholder;
+    position = snapped;
+  });
+  output += text.slice(position);
+
+  return checkPlaceholders(source, output).valid ? output : null;
+};
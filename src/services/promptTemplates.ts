@@ -0,0 +1,175 @@
+// Prompt templates for prompt-based engines, one per kind of text. Every save
+// adds a version; the newest version of each kind is used for new jobs, and
+// its id ("body@v3") is recorded with every translation it produced.
+// Templates are kept in localStorage.
+
+export type PromptKind = 'title' | 'body' | 'excerpt' | 'seo';
+
+export type PromptTemplate = {
+  kind: PromptKind;
+  version: number;
+  text: string;
+  // ISO date of the save
+  createdAt: string;
+  note: string;
+};
+
+// Every version of every kind, oldest first
+export type PromptHistory = Record<PromptKind, PromptTemplate[]>;
+
+// Newest version of each kind, fixed for the duration of a job
+export type PromptTemplateSet = Record<PromptKind, PromptTemplate>;
+
+export type PromptVariables = {
+  // Target language as named in prompts
+  language: string;
+  sourceLanguage: string;
+  // Style profile instructions
+  style: string;
+  glossary: string;
+  // Extra instructions when placeholders went missing in an earlier answer
+  placeholders: string;
+  // What the text belongs to, e.g. the post's title
+  context: string;
+  // How the segments are laid out in the content and must be answered
+  format: string;
+  content: string;
+};
+
+export const PROMPT_VARIABLES: Array<keyof PromptVariables> = [
+  'language', 'sourceLanguage', 'style', 'glossary', 'placeholders', 'context', 'format', 'content',
+];
+
+export const PROMPT_KIND_LABELS: Record<PromptKind, string> = {
+  title: 'Titles',
+  body: 'Post content',
+  excerpt: 'Excerpts',
+  seo: 'SEO titles and descriptions',
+};
+
+const STORAGE_KEY = 'translate-tales.prompt-templates';
+
+// Segment markers ({{SEGMENT_0}}) and placeholders ({{HTML_ELEMENT_0}}) are
+// uppercase, so they never clash with the lowercase variable names
+const VARIABLE_REGEX = /\{\{(\w+)\}\}/g;
+
+const isVariable = (name: string): name is keyof PromptVariables =>
+  PROMPT_VARIABLES.includes(name as keyof PromptVariables);
+
+const builtIn = (kind: PromptKind, text: string): PromptTemplate => ({
+  kind,
+  version: 1,
+  text,
+  createdAt: '1970-01-01T00:00:00.000Z',
+  note: 'Built-in',
+});
+
+const PLACEHOLDER_RULE = 'Do not translate or modify any placeholder tags like {{HTML_ELEMENT_0}}.';
+
+export const DEFAULT_TEMPLATES: PromptTemplateSet = {
+  title: builtIn('title', `Translate the following title from {{sourceLanguage}} into {{language}}.
+Keep it concise and accurate.
+{{style}}
+{{placeholders}}
+{{glossary}}
+{{format}}
+
+{{content}}`),
+  body: builtIn('body', `Translate the following content from {{sourceLanguage}} into {{language}}.
+{{style}}
+Keep sentence structure similar where possible.
+{{context}}
+${PLACEHOLDER_RULE}
+{{placeholders}}
+{{glossary}}
+{{format}}
+
+{{content}}`),
+  excerpt: builtIn('excerpt', `Translate the following post excerpt from {{sourceLanguage}} into {{language}}.
+It is a short summary shown in post listings, so keep it about as long as the original.
+{{style}}
+{{context}}
+${PLACEHOLDER_RULE}
+{{placeholders}}
+{{glossary}}
+{{format}}
+
+{{content}}`),
+  seo: builtIn('seo', `Translate the following SEO titles and meta descriptions from {{sourceLanguage}} into {{language}}.
+Search engines cut off long titles and descriptions, so stay within the length of the original.
+Use the wording people would search for in {{language}} rather than a literal translation.
+{{style}}
+{{context}}
+${PLACEHOLDER_RULE}
+{{glossary}}
+{{format}}
+
+{{content}}`),
+};
+
+const KINDS = Object.keys(DEFAULT_TEMPLATES) as PromptKind[];
+
+export const loadPromptHistory = (): PromptHistory => {
+  const history = Object.fromEntries(KINDS.map(kind => [kind, [DEFAULT_TEMPLATES[kind]]])) as PromptHistory;
+  const raw = localStorage.getItem(STORAGE_KEY);
+  if (!raw) return history;
+
+  try {
+    const stored = JSON.parse(raw);
+    KINDS.forEach(kind => {
+      if (Array.isArray(stored[kind]) && stored[kind].length > 0) history[kind] = stored[kind];
+    });
+  } catch (error) {
+    console.error('Corrupted prompt templates in storage:', error);
+  }
+  return history;
+};
+
+const saveHistory = (history: PromptHistory): void => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(history));
+};
+
+export const latestTemplates = (history: PromptHistory = loadPromptHistory()): PromptTemplateSet =>
+  Object.fromEntries(KINDS.map(kind => [kind, history[kind][history[kind].length - 1]])) as PromptTemplateSet;
+
+// Problems that make a template unusable, empty when it can be saved
+export const validateTemplate = (text: string): string[] => {
+  const problems: string[] = [];
+  const used = [...text.matchAll(VARIABLE_REGEX)].map(match => match[1]);
+  const unknown = used.filter(name => /^[a-z]/.test(name) && !isVariable(name));
+
+  if (!used.includes('content')) problems.push('The template must contain {{content}}');
+  if (!used.includes('language')) problems.push('The template must contain {{language}}');
+  if (unknown.length > 0) problems.push(`Unknown variables: ${[...new Set(unknown)].map(name => `{{${name}}}`).join(', ')}`);
+  return problems;
+};
+
+// Store a new version of a template; older versions stay in the history
+export const savePromptTemplate = (kind: PromptKind, text: string, note = ''): PromptHistory => {
+  const problems = validateTemplate(text);
+  if (problems.length > 0) throw new Error(problems.join('. '));
+
+  const history = loadPromptHistory();
+  const previous = history[kind][history[kind].length - 1];
+  history[kind] = [
+    ...history[kind],
+    { kind, version: previous.version + 1, text, createdAt: new Date().toISOString(), note },
+  ];
+  saveHistory(history);
+  return history;
+};
+
+// Identifier recorded with translations, e.g. "body@v3"
+export const templateId = (template: PromptTemplate): string => `${template.kind}@v${template.version}`;
+
+// Fill in a template. Lines holding nothing but a variable that came out
+// empty are dropped; unknown {{...}} are left alone.
+export const renderPrompt = (template: PromptTemplate, variables: PromptVariables): string =>
+  template.text
+    .split('\n')
+    .filter(line => {
+      const name = line.trim().match(/^\{\{(\w+)\}\}$/)?.[1];
+      return !(name && isVariable(name) && !variables[name].trim());
+    })
+    .join('\n')
+    .replace(VARIABLE_REGEX, (match, name: string) => (isVariable(name) ? variables[name] : match));
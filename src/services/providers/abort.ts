@@ -0,0 +1,3 @@
+// Signal for one request: aborted on timeout or when the job is cancelled
+export const requestSignal = (timeoutMs: number, signal?: AbortSignal): AbortSignal =>
+  signal ? AbortSignal.any([signal, AbortSignal.timeout(timeoutMs)]) : AbortSignal.timeout(timeoutMs);
@@ -0,0 +1,84 @@
+import { TranslationProvider } from './types';
+import { requestSignal } from './abort';
+
+// DeepL takes a few regional targets (PT-BR, ZH-HANT, EN-GB, ...) but only
+// bare languages as source; bare EN and PT targets are deprecated
+const DEEPL_DEFAULT_VARIANTS: Record<string, string> = { EN: 'EN-US', PT: 'PT-PT' };
+
+const toDeepLTarget = (tag: string): string => {
+  const code = tag.toUpperCase();
+  return DEEPL_DEFAULT_VARIANTS[code] ?? code;
+};
+
+const toDeepLSource = (tag: string): string => tag.split('-')[0].toUpperCase();
+
+// The "prefer" variants fall back to the default register for targets
+// without formality support instead of failing the request
+const DEEPL_FORMALITY = { default: 'default', formal: 'prefer_more', informal: 'prefer_less' };
+
+// DeepL REST API (v2). The free and pro plans live on different hosts,
+// and browsers usually need a proxy in front of it, so the URL is editable.
+export const deeplProvider: TranslationProvider = {
+  id: 'deepl',
+  name: 'DeepL',
+  description: 'DeepL translate API or a proxy exposing the same interface',
+  defaultBaseUrl: 'https://api-free.deepl.com',
+  defaultModel: '',
+  capabilities: {
+    prompts: false,
+    customEndpoint: true,
+    requiresApiKey: true,
+    streaming: false,
+  },
+  limits: {
+    maxInputChars: 100000,
+    maxOutputTokens: 100000,
+    chunkTokens: 2000,
+    requestsPerMinute: 60,
+    tokensPerMinute: 1000000,
+    timeoutMs: 30000,
+  },
+  translate: async (request, settings, apiKey, _onPartial, signal) => {
+    const baseUrl = (settings.baseUrl || deeplProvider.defaultBaseUrl).replace(/\/$/, '');
+
+    const body: Record<string, unknown> = {
+      text: [request.text],
+      target_lang: toDeepLTarget(request.targetLanguage),
+      preserve_formatting: true,
+      show_billed_characters: true,
+    };
+    if (request.sourceLanguage) {
+      body.source_lang = toDeepLSource(request.sourceLanguage);
+    }
+    if (request.formality) {
+      body.formality = DEEPL_FORMALITY[request.formality];
+    }
+
+    const response = await fetch(`${baseUrl}/v2/translate`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `DeepL-Auth-Key ${apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+      signal: requestSignal(deeplProvider.limits.timeoutMs, signal)
+    });
+
+    if (!response.ok) {
+      throw new Error(`Translation API error: ${response.status} - ${await response.text()}`);
+    }
+
+    const data = await response.json();
+
+    if (!data.translations || !data.translations[0]) {
+      console.error('Unexpected API response format:', data);
+      throw new Error('Unexpected API response format');
+    }
+
+    const { text, billed_characters: billedCharacters } = data.translations[0];
+    return {
+      text,
+      usage: typeof billedCharacters === 'number' ? { inputTokens: 0, outputTokens: 0, billedCharacters } : undefined,
+    };
+  },
+};
@@ -0,0 +1,39 @@
+// Minimal reader for text/event-stream responses, as used by the streaming
+// variants of the LLM APIs
+
+const EVENT_BOUNDARY_REGEX = /\r?\n\r?\n/;
+
+// Hand the `data:` payload of every event to `onData`, in order
+export const readEventStream = async (response: Response, onData: (data: string) => void): Promise<void> => {
+  if (!response.body) {
+    throw new Error('Streaming is not supported by this browser');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const dispatch = (event: string) => {
+    const data = event
+      .split(/\r?\n/)
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.slice(5).replace(/^ /, ''))
+      .join('\n');
+    if (data) onData(data);
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let match: RegExpExecArray | null;
+    while ((match = EVENT_BOUNDARY_REGEX.exec(buffer)) !== null) {
+      dispatch(buffer.slice(0, match.index));
+      buffer = buffer.slice(match.index + match[0].length);
+    }
+  }
+
+  buffer += decoder.decode();
+  if (buffer.trim()) dispatch(buffer);
+};
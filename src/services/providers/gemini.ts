@@ -0,0 +1,109 @@
+import { JsonSchema, ReportedUsage, TranslationProvider } from './types';
+import { requestSignal } from './abort';
+import { readEventStream } from './eventStream';
+
+// Text of a generateContent response (or of one streamed piece of it)
+const candidateText = (data: { candidates?: Array<{ content?: { parts?: Array<{ text?: string }> } }> }): string | undefined => {
+  const parts = data.candidates?.[0]?.content?.parts;
+  return parts ? parts.map(part => part.text ?? '').join('') : undefined;
+};
+
+type UsageMetadata = { promptTokenCount?: number; candidatesTokenCount?: number };
+
+const toUsage = (metadata?: UsageMetadata): ReportedUsage | undefined => metadata && {
+  inputTokens: metadata.promptTokenCount ?? 0,
+  outputTokens: metadata.candidatesTokenCount ?? 0,
+};
+
+// Gemini takes an OpenAPI-style schema: uppercase types, no additionalProperties,
+// and an explicit property order so ids are written before their text
+const toGeminiSchema = ({ type, properties, items, required }: JsonSchema): Record<string, unknown> => ({
+  type: type.toUpperCase(),
+  ...(properties ? {
+    properties: Object.fromEntries(Object.entries(properties).map(([name, schema]) => [name, toGeminiSchema(schema)])),
+    propertyOrdering: Object.keys(properties),
+  } : {}),
+  ...(required ? { required } : {}),
+  ...(items ? { items: toGeminiSchema(items) } : {}),
+});
+
+// Google Gemini via the generateContent REST endpoint
+// (streamGenerateContent when the caller wants partial output)
+export const geminiProvider: TranslationProvider = {
+  id: 'gemini',
+  name: 'Google Gemini',
+  description: 'Gemini models through the Generative Language API',
+  defaultBaseUrl: 'https://generativelanguage.googleapis.com/v1beta',
+  defaultModel: 'gemini-1.5-flash-8b',
+  capabilities: {
+    prompts: true,
+    customEndpoint: false,
+    requiresApiKey: true,
+    streaming: true,
+  },
+  limits: {
+    maxInputChars: 30000,
+    maxOutputTokens: 8192,
+    chunkTokens: 1000,
+    requestsPerMinute: 15,
+    tokensPerMinute: 1000000,
+    timeoutMs: 30000,
+  },
+  translate: async (request, settings, apiKey, onPartial, signal) => {
+    const baseUrl = settings.baseUrl || geminiProvider.defaultBaseUrl;
+    const model = settings.model || geminiProvider.defaultModel;
+    const endpoint = onPartial
+      ? `${baseUrl}/models/${model}:streamGenerateContent?alt=sse&key=${apiKey}`
+      : `${baseUrl}/models/${model}:generateContent?key=${apiKey}`;
+
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        contents: [{ parts: [{ text: request.prompt }] }],
+        generationConfig: {
+          temperature: 0.2,
+          topP: 0.8,
+          topK: 40,
+          ...(request.responseSchema ? {
+            responseMimeType: 'application/json',
+            responseSchema: toGeminiSchema(request.responseSchema),
+          } : {}),
+        }
+      }),
+      // Add a timeout to prevent hanging requests
+      signal: requestSignal(geminiProvider.limits.timeoutMs, signal)
+    });
+
+    if (!response.ok) {
+      throw new Error(`Translation API error: ${response.status} - ${await response.text()}`);
+    }
+
+    if (onPartial) {
+      let text = '';
+      let usage: ReportedUsage | undefined;
+      await readEventStream(response, data => {
+        // The last event may only carry finish reason and usage
+        const event = JSON.parse(data);
+        text += candidateText(event) ?? '';
+        // Usage is running totals, the last one counts
+        usage = toUsage(event.usageMetadata) ?? usage;
+        onPartial(text);
+      });
+      return { text, usage };
+    }
+
+    const data = await response.json();
+    const text = candidateText(data);
+
+    // Check for valid API response
+    if (text === undefined) {
+      console.error('Unexpected API response format:', data);
+      throw new Error('Unexpected API response format');
+    }
+
+    return { text, usage: toUsage(data.usageMetadata) };
+  },
+};
@@ -0,0 +1,41 @@
+import { geminiProvider } from './gemini';
+import { openAiProvider } from './openai';
+import { deeplProvider } from './deepl';
+import { libreTranslateProvider } from './libretranslate';
+import { mockProvider } from './mock';
+import { ProviderId, ProviderSettings, TranslationProvider } from './types';
+
+export * from './types';
+
+// All available translation engines, in the order they are offered in the UI
+export const PROVIDERS: TranslationProvider[] = [
+  geminiProvider,
+  openAiProvider,
+  deeplProvider,
+  libreTranslateProvider,
+  mockProvider,
+];
+
+export const getProvider = (id: ProviderId): TranslationProvider => {
+  const provider = PROVIDERS.find(p => p.id === id);
+  if (!provider) {
+    throw new Error(`Unknown translation provider: ${id}`);
+  }
+  return provider;
+};
+
+// Requests in flight at once unless the user changes it
+const DEFAULT_CONCURRENCY = 4;
+
+// Settings pre-filled with a provider's defaults
+export const getDefaultProviderSettings = (id: ProviderId): ProviderSettings => {
+  const provider = getProvider(id);
+  return {
+    providerId: provider.id,
+    baseUrl: provider.defaultBaseUrl,
+    model: provider.defaultModel,
+    concurrency: DEFAULT_CONCURRENCY,
+    requestsPerMinute: provider.limits.requestsPerMinute,
+    tokensPerMinute: provider.limits.tokensPerMinute,
+  };
+};
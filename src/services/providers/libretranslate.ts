@@ -0,0 +1,68 @@
+import { TranslationProvider } from './types';
+import { requestSignal } from './abort';
+
+// LibreTranslate knows a handful of variants by full tag, everything else
+// by its bare language code
+const LIBRETRANSLATE_VARIANTS = new Set(['zh-Hans', 'zh-Hant', 'pt-BR']);
+
+const toLibreTranslateCode = (tag: string): string =>
+  LIBRETRANSLATE_VARIANTS.has(tag) ? tag : tag.split('-')[0];
+
+// LibreTranslate, typically self-hosted
+export const libreTranslateProvider: TranslationProvider = {
+  id: 'libretranslate',
+  name: 'LibreTranslate',
+  description: 'Open source LibreTranslate server (public or self-hosted)',
+  defaultBaseUrl: 'https://libretranslate.com',
+  defaultModel: '',
+  capabilities: {
+    prompts: false,
+    customEndpoint: true,
+    requiresApiKey: false,
+    streaming: false,
+  },
+  limits: {
+    maxInputChars: 5000,
+    maxOutputTokens: 5000,
+    chunkTokens: 500,
+    requestsPerMinute: 30,
+    tokensPerMinute: 100000,
+    timeoutMs: 30000,
+  },
+  translate: async (request, settings, apiKey, _onPartial, signal) => {
+    const baseUrl = (settings.baseUrl || libreTranslateProvider.defaultBaseUrl).replace(/\/$/, '');
+
+    // No register or style options here: style profiles can't reach this engine
+    const body: Record<string, unknown> = {
+      q: request.text,
+      source: request.sourceLanguage ? toLibreTranslateCode(request.sourceLanguage) : 'auto',
+      target: toLibreTranslateCode(request.targetLanguage),
+      format: 'text',
+    };
+    if (apiKey) {
+      body.api_key = apiKey;
+    }
+
+    const response = await fetch(`${baseUrl}/translate`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+      signal: requestSignal(libreTranslateProvider.limits.timeoutMs, signal)
+    });
+
+    if (!response.ok) {
+      throw new Error(`Translation API error: ${response.status} - ${await response.text()}`);
+    }
+
+    const data = await response.json();
+
+    if (typeof data.translatedText !== 'string') {
+      console.error('Unexpected API response format:', data);
+      throw new Error('Unexpected API response format');
+    }
+
+    return { text: data.translatedText };
+  },
+};
@@ -0,0 +1,134 @@
+import { hash, sleep } from '../utils';
+import { MockFailure, MockOptions, TranslationProvider, TranslationRequest } from './types';
+
+export const DEFAULT_MOCK_OPTIONS: MockOptions = {
+  latencyMs: 300,
+  failureRates: { rateLimit: 0, serverError: 0, truncation: 0, droppedPlaceholder: 0 },
+};
+
+// Modes, chosen through the model setting so the translation memory keeps
+// their results apart
+export const MOCK_MODES = {
+  mock: 'Deterministic fake translations',
+  pseudo: 'Pseudo-localization (accented, expanded, bracketed)',
+};
+
+// Segment markers and placeholders pass through every mode untouched
+const PROTECTED_REGEX = /(\{\{[A-Z_]+_\d+\}\})/;
+const SEGMENT_REGEX = /(\{\{SEGMENT_\d+\}\}\n?)/;
+const PLACEHOLDER_REGEX = /\{\{HTML_ELEMENT_\d+\}\}/g;
+
+const ACCENTS: Record<string, string> = {
+  a: 'á', b: 'ƀ', c: 'ç', d: 'ð', e: 'é', f: 'ƒ', g: 'ĝ', h: 'ĥ', i: 'í', j: 'ĵ', k: 'ķ', l: 'ļ', m: 'ɱ',
+  n: 'ñ', o: 'ö', p: 'þ', r: 'ŕ', s: 'š', t: 'ţ', u: 'û', w: 'ŵ', y: 'ý', z: 'ž',
+  A: 'Á', B: 'Ɓ', C: 'Ç', D: 'Ð', E: 'É', G: 'Ĝ', H: 'Ĥ', I: 'Í', J: 'Ĵ', K: 'Ķ', L: 'Ļ', N: 'Ñ',
+  O: 'Ö', R: 'Ŕ', S: 'Š', T: 'Ţ', U: 'Û', W: 'Ŵ', Y: 'Ý', Z: 'Ž',
+};
+
+const SYLLABLES = ['ka', 'lo', 'mi', 'nu', 're', 'sa', 'ti', 'vo', 'ze', 'pa', 'du', 'fe', 'go', 'hi', 'ba', 'ne'];
+
+// Text grows by about this much in most languages, so layouts must cope with it
+const EXPANSION = 0.4;
+
+// Apply `transform` to the text between markers and placeholders
+const mapText = (text: string, transform: (part: string) => string): string =>
+  text.split(PROTECTED_REGEX).map((part, index) => (index % 2 === 1 ? part : transform(part))).join('');
+
+// A made-up word of the same length, the same for a word and language every time
+const fakeWord = (word: string, language: string): string => {
+  let seed = hash(`${language}\u0000${word.toLowerCase()}`);
+  let fake = '';
+  while (fake.length < word.length) {
+    fake += SYLLABLES[seed % SYLLABLES.length];
+    seed = Math.floor(seed / SYLLABLES.length) || hash(fake);
+  }
+  fake = fake.slice(0, word.length);
+  return word[0] === word[0].toUpperCase() ? fake[0].toUpperCase() + fake.slice(1) : fake;
+};
+
+const fakeTranslation = (text: string, language: string): string =>
+  mapText(text, part => part.replace(/\p{L}+/gu, word => fakeWord(word, language)));
+
+// Accented and padded, in brackets, so untranslated strings, cut-off text and
+// broken encodings stand out on a staging site
+const pseudoLocalize = (text: string): string =>
+  text.split(SEGMENT_REGEX).map((part, index) => {
+    if (index % 2 === 1 || !part.trim()) return part;
+    const accented = mapText(part.trim(), run => run.replace(/[a-zA-Z]/g, letter => ACCENTS[letter] ?? letter));
+    const visible = part.trim().replace(PLACEHOLDER_REGEX, '').length;
+    const padding = '~'.repeat(Math.ceil(visible * EXPANSION));
+    const [leading] = part.match(/^\s*/)!;
+    const [trailing] = part.match(/\s*$/)!;
+    return `${leading}[${accented}${padding ? ` ${padding}` : ''}]${trailing}`;
+  }).join('');
+
+// How often each request has been sent, so a retry of a failed request draws
+// a new outcome, while the same job after a reload fails the same way again
+const attempts = new Map<number, number>();
+
+const pickFailure = (request: TranslationRequest, options: MockOptions): MockFailure | null => {
+  const key = hash(`${request.targetLanguage}\u0000${request.text}`);
+  const attempt = attempts.get(key) ?? 0;
+  attempts.set(key, attempt + 1);
+
+  const roll = hash(`${key}:${attempt}`) / 0x100000000;
+  let threshold = 0;
+  for (const [failure, rate] of Object.entries(options.failureRates) as Array<[MockFailure, number]>) {
+    threshold += rate;
+    if (roll < threshold) return failure;
+  }
+  return null;
+};
+
+// Built-in engine that never leaves the browser, for demos and development
+export const mockProvider: TranslationProvider = {
+  id: 'mock',
+  name: 'Offline mock',
+  description: 'Fake or pseudo-localized translations without any API, with optional simulated failures',
+  defaultBaseUrl: '',
+  defaultModel: 'mock',
+  capabilities: {
+    prompts: false,
+    customEndpoint: false,
+    requiresApiKey: false,
+    streaming: true,
+  },
+  limits: {
+    maxInputChars: 30000,
+    maxOutputTokens: 8192,
+    chunkTokens: 1000,
+    requestsPerMinute: 600,
+    tokensPerMinute: 1000000,
+    timeoutMs: 30000,
+  },
+  translate: async (request, settings, _apiKey, onPartial, signal) => {
+    const options = settings.mock ?? DEFAULT_MOCK_OPTIONS;
+    const failure = pickFailure(request, options);
+
+    let text = settings.model === 'pseudo'
+      ? pseudoLocalize(request.text)
+      : fakeTranslation(request.text, request.targetLanguage);
+    if (failure === 'truncation') {
+      text = text.slice(0, Math.floor(text.length / 2));
+    } else if (failure === 'droppedPlaceholder') {
+      text = text.replace(new RegExp(PLACEHOLDER_REGEX.source), '');
+    }
+
+    // Errors come back after part of the latency, like a real error response;
+    // answers are streamed in a few steps spread over it
+    const steps = onPartial ? 4 : 1;
+    await sleep(options.latencyMs / steps, signal);
+    if (failure === 'rateLimit') {
+      throw new Error('Translation API error: 429 - Simulated rate limit');
+    }
+    if (failure === 'serverError') {
+      throw new Error('Translation API error: 500 - Simulated server error');
+    }
+    for (let step = 1; step <= steps; step++) {
+      if (step > 1) await sleep(options.latencyMs / steps, signal);
+      onPartial?.(text.slice(0, Math.ceil((text.length * step) / steps)));
+    }
+
+    return { text };
+  },
+};
@@ -0,0 +1,93 @@
+import { ReportedUsage, TranslationProvider } from './types';
+import { requestSignal } from './abort';
+import { readEventStream } from './eventStream';
+
+type CompletionUsage = { prompt_tokens?: number; completion_tokens?: number };
+
+const toUsage = (usage?: CompletionUsage | null): ReportedUsage | undefined => usage ? {
+  inputTokens: usage.prompt_tokens ?? 0,
+  outputTokens: usage.completion_tokens ?? 0,
+} : undefined;
+
+// Any endpoint speaking the OpenAI chat completions protocol
+// (OpenAI, Azure-style proxies, OpenRouter, Ollama, vLLM, ...)
+export const openAiProvider: TranslationProvider = {
+  id: 'openai',
+  name: 'OpenAI-compatible',
+  description: 'Chat completions API of OpenAI or any compatible server',
+  defaultBaseUrl: 'https://api.openai.com/v1',
+  defaultModel: 'gpt-4o-mini',
+  capabilities: {
+    prompts: true,
+    customEndpoint: true,
+    requiresApiKey: false,
+    streaming: true,
+  },
+  limits: {
+    maxInputChars: 40000,
+    maxOutputTokens: 16384,
+    chunkTokens: 1000,
+    requestsPerMinute: 60,
+    tokensPerMinute: 200000,
+    timeoutMs: 60000,
+  },
+  translate: async (request, settings, apiKey, onPartial, signal) => {
+    const baseUrl = (settings.baseUrl || openAiProvider.defaultBaseUrl).replace(/\/$/, '');
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    };
+    // Local servers usually run without authentication
+    if (apiKey) {
+      headers['Authorization'] = `Bearer ${apiKey}`;
+    }
+
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: settings.model || openAiProvider.defaultModel,
+        messages: [
+          { role: 'system', content: 'You are a professional translator. Reply with the translation only.' },
+          { role: 'user', content: request.prompt },
+        ],
+        temperature: 0.2,
+        top_p: 0.8,
+        stream: Boolean(onPartial),
+        // Structured outputs; strict mode needs every property required and no extra ones
+        ...(request.responseSchema ? {
+          response_format: { type: 'json_schema', json_schema: { name: 'response', strict: true, schema: request.responseSchema } },
+        } : {}),
+        // Streams only report usage in a final extra chunk when asked to
+        ...(onPartial ? { stream_options: { include_usage: true } } : {}),
+      }),
+      signal: requestSignal(openAiProvider.limits.timeoutMs, signal)
+    });
+
+    if (!response.ok) {
+      throw new Error(`Translation API error: ${response.status} - ${await response.text()}`);
+    }
+
+    if (onPartial) {
+      let text = '';
+      let usage: ReportedUsage | undefined;
+      await readEventStream(response, data => {
+        if (data === '[DONE]') return;
+        const event = JSON.parse(data);
+        text += event.choices?.[0]?.delta?.content ?? '';
+        usage = toUsage(event.usage) ?? usage;
+        onPartial(text);
+      });
+      return { text, usage };
+    }
+
+    const data = await response.json();
+
+    if (!data.choices || !data.choices[0] || !data.choices[0].message) {
+      console.error('Unexpected API response format:', data);
+      throw new Error('Unexpected API response format');
+    }
+
+    return { text: data.choices[0].message.content ?? '', usage: toUsage(data.usage) };
+  },
+};
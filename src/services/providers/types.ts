@@ -0,0 +1,110 @@
+// Identifiers for the translation engines the app can talk to
+export type ProviderId = 'gemini' | 'openai' | 'deepl' | 'libretranslate' | 'mock';
+
+// What an engine can do, used to decide how requests are built
+export type ProviderCapabilities = {
+  // Accepts free-form instructions (LLM) instead of plain source text
+  prompts: boolean;
+  // Can be pointed at a self-hosted or proxied endpoint
+  customEndpoint: boolean;
+  // Needs an API key to be called
+  requiresApiKey: boolean;
+  // Can send the translation piece by piece while it is generated
+  streaming: boolean;
+};
+
+// Hard limits of an engine, used for chunking and pacing requests
+export type ProviderLimits = {
+  maxInputChars: number;
+  maxOutputTokens: number;
+  // Preferred size of one request's source text; smaller than the hard limits
+  // so answers stay faithful and a failed request has less to redo
+  chunkTokens: number;
+  requestsPerMinute: number;
+  tokensPerMinute: number;
+  timeoutMs: number;
+};
+
+// Per-job provider choice made in the UI
+export type ProviderSettings = {
+  providerId: ProviderId;
+  baseUrl: string;
+  model: string;
+  // Requests in flight at once across the whole job
+  concurrency: number;
+  // Budgets enforced for every API key
+  requestsPerMinute: number;
+  tokensPerMinute: number;
+  // Behaviour of the offline mock engine; ignored by real engines
+  mock?: MockOptions;
+};
+
+// Ways the offline mock engine can be told to fail
+export type MockFailure = 'rateLimit' | 'serverError' | 'truncation' | 'droppedPlaceholder';
+
+export type MockOptions = {
+  // Time every request takes
+  latencyMs: number;
+  // Share of requests, from 0 to 1, failing in each way
+  failureRates: Record<MockFailure, number>;
+};
+
+// Register asked for; engines without prompts get it as a request parameter
+export type Formality = 'default' | 'formal' | 'informal';
+
+// The subset of JSON Schema used to describe structured answers
+export type JsonSchema = {
+  type: 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean';
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+  additionalProperties?: boolean;
+};
+
+export type TranslationRequest = {
+  // Source text with protected elements already replaced by placeholders
+  text: string;
+  // Full instruction prompt, only used by prompt-capable providers
+  prompt: string;
+  // BCP-47 tags; adapters map them to whatever codes their API expects
+  targetLanguage: string;
+  sourceLanguage?: string;
+  isTitle: boolean;
+  // Already part of the prompt; for engines that take it separately
+  formality?: Formality;
+  // Shape the answer must have; engines that support it enforce it while generating
+  responseSchema?: JsonSchema;
+};
+
+// What the engine says a request consumed, when it says so
+export type ReportedUsage = {
+  inputTokens: number;
+  outputTokens: number;
+  // Engines billing by source length (DeepL)
+  billedCharacters?: number;
+};
+
+export type TranslationResponse = {
+  text: string;
+  usage?: ReportedUsage;
+};
+
+export type TranslationProvider = {
+  id: ProviderId;
+  name: string;
+  description: string;
+  defaultBaseUrl: string;
+  defaultModel: string;
+  capabilities: ProviderCapabilities;
+  limits: ProviderLimits;
+  // With `onPartial`, streaming engines report the text generated so far as
+  // it grows; the promise still resolves with the complete translation.
+  // `signal` aborts the request when the job is cancelled.
+  translate: (
+    request: TranslationRequest,
+    settings: ProviderSettings,
+    apiKey: string,
+    onPartial?: (textSoFar: string) => void,
+    signal?: AbortSignal
+  ) => Promise<TranslationResponse>;
+};
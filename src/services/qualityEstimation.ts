@@ -0,0 +1,247 @@
+// Quality estimation for finished translations. Engines that take prompts
+// are asked to judge every segment against its source; plain MT engines
+// translate the result back into the source language, and the back
+// translation is compared with the original.
+
+import { getProvider } from './providers';
+import { buildGlossaryInstructions } from './glossaryService';
+import { detectLanguage } from './languageDetection';
+import { findLocale } from './localeCatalog';
+import { buildStyleInstructions } from './styleProfiles';
+import { runWithConcurrency } from './scheduler';
+import { chunkBudget, groupIntoChunks } from './segmenter';
+import { SegmentPair, sendRequest, translateSegments, TranslationOptions } from './translationService';
+
+export type QualityIssueType = 'omission' | 'addition' | 'terminology' | 'mistranslation' | 'fluency';
+
+export type QualityIssue = {
+  type: QualityIssueType;
+  note: string;
+  // Start of the source segment the issue was found in
+  excerpt: string;
+};
+
+export type QualityEstimate = {
+  // 0–100, segments weighted by their length
+  score: number;
+  // Lowest segment score
+  minimum: number;
+  method: 'judge' | 'back-translation';
+  issues: QualityIssue[];
+  // Segments that could be scored
+  scored: number;
+  // Held back from going live automatically
+  flagged: boolean;
+};
+
+// Posts scoring below this are flagged
+export const QUALITY_THRESHOLD = 70;
+
+// A single segment this bad flags the post whatever the average
+const SEGMENT_FLOOR = 40;
+
+const ISSUE_TYPES: QualityIssueType[] = ['omission', 'addition', 'terminology', 'mistranslation', 'fluency'];
+
+const stripPlaceholders = (text: string) => text.replace(/\{\{HTML_ELEMENT_\d+\}\}/g, ' ').replace(/\s+/g, ' ').trim();
+
+const excerptOf = (text: string) => stripPlaceholders(text).slice(0, 80);
+
+type SegmentScore = {
+  index: number;
+  score: number;
+  issues: QualityIssue[];
+};
+
+// Character trigram F-score (as in chrF) of two texts, 0–1
+const trigramSimilarity = (a: string, b: string): number => {
+  const grams = (text: string) => {
+    const counts = new Map<string, number>();
+    const normalized = ` ${text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim()} `;
+    for (let i = 0; i + 3 <= normalized.length; i++) {
+      const gram = normalized.slice(i, i + 3);
+      counts.set(gram, (counts.get(gram) ?? 0) + 1);
+    }
+    return counts;
+  };
+  const gramsA = grams(a);
+  const gramsB = grams(b);
+  const total = (counts: Map<string, number>) => [...counts.values()].reduce((sum, count) => sum + count, 0);
+
+  let common = 0;
+  gramsA.forEach((count, gram) => { common += Math.min(count, gramsB.get(gram) ?? 0); });
+  if (common === 0) return 0;
+  const precision = common / total(gramsB);
+  const recall = common / total(gramsA);
+  return (2 * precision * recall) / (precision + recall);
+};
+
+// Back translations paraphrase even when the translation is right, so this
+// similarity already counts as a perfect score
+const BACK_TRANSLATION_REFERENCE = 0.6;
+
+// Length of the back translation relative to the source beyond which content
+// was most likely dropped or invented
+const OMISSION_RATIO = 0.6;
+const ADDITION_RATIO = 1.6;
+
+const scoreBackTranslations = async (
+  pairs: SegmentPair[],
+  targetLanguage: string,
+  options: TranslationOptions
+): Promise<SegmentScore[]> => {
+  const sourceLanguage = options.sourceLanguage
+    ?? detectLanguage(pairs.map(pair => stripPlaceholders(pair.source)).join('\n')).language;
+  if (!sourceLanguage) throw new Error('The source language could not be determined');
+
+  const provider = getProvider(options.provider.providerId);
+  const units = pairs.map((pair, index) => ({ id: index, text: stripPlaceholders(pair.translation) }));
+  const chunks = groupIntoChunks(units, chunkBudget(provider.limits, provider.capabilities));
+  const backOptions: TranslationOptions = { ...options, sourceLanguage: targetLanguage, glossary: undefined, onStream: undefined };
+  const back = new Map<number, string>();
+
+  // A failed chunk only leaves its segments unscored
+  await runWithConcurrency(chunks, options.provider.concurrency, async chunk => {
+    try {
+      const translated = await translateSegments(chunk, sourceLanguage, backOptions, false);
+      translated.forEach((text, id) => back.set(id, text));
+    } catch (error) {
+      console.error('Back translation failed:', error);
+    }
+  });
+
+  return pairs.flatMap((pair, index) => {
+    const backText = back.get(index);
+    if (backText === undefined) return [];
+    const source = stripPlaceholders(pair.source);
+    const similarity = trigramSimilarity(source, backText);
+    const ratio = backText.length / Math.max(1, source.length);
+    const issues: QualityIssue[] = [];
+    const excerpt = excerptOf(pair.source);
+
+    if (ratio < OMISSION_RATIO) {
+      issues.push({ type: 'omission', excerpt, note: `Back translation is much shorter than the source: "${backText.slice(0, 80)}"` });
+    } else if (ratio > ADDITION_RATIO) {
+      issues.push({ type: 'addition', excerpt, note: `Back translation is much longer than the source: "${backText.slice(0, 80)}"` });
+    } else if (similarity < BACK_TRANSLATION_REFERENCE / 2) {
+      issues.push({ type: 'mistranslation', excerpt, note: `Back translation reads differently: "${backText.slice(0, 80)}"` });
+    }
+
+    return [{ index, score: Math.round(100 * Math.min(1, similarity / BACK_TRANSLATION_REFERENCE)), issues }];
+  });
+};
+
+// Pull the judge's verdicts out of its answer, ignoring anything malformed
+const parseJudgeResponse = (response: string, pairs: SegmentPair[], ids: number[]): SegmentScore[] => {
+  const start = response.indexOf('[');
+  const end = response.lastIndexOf(']');
+  if (start < 0 || end < start) throw new Error('Quality judge did not return a JSON array');
+
+  const verdicts: unknown = JSON.parse(response.slice(start, end + 1));
+  if (!Array.isArray(verdicts)) throw new Error('Quality judge did not return a JSON array');
+
+  return verdicts.flatMap((verdict): SegmentScore[] => {
+    const { id, score, issues } = (verdict ?? {}) as { id?: unknown, score?: unknown, issues?: unknown };
+    if (typeof id !== 'number' || !ids.includes(id) || typeof score !== 'number') return [];
+    const excerpt = excerptOf(pairs[id].source);
+    return [{
+      index: id,
+      score: Math.max(0, Math.min(100, Math.round(score))),
+      issues: (Array.isArray(issues) ? issues : []).flatMap((issue): QualityIssue[] => {
+        const { type, note } = (issue ?? {}) as { type?: unknown, note?: unknown };
+        if (typeof type !== 'string' || !ISSUE_TYPES.includes(type as QualityIssueType)) return [];
+        return [{ type: type as QualityIssueType, note: typeof note === 'string' ? note : '', excerpt }];
+      }),
+    }];
+  });
+};
+
+const scoreWithJudge = async (
+  pairs: SegmentPair[],
+  targetLanguage: string,
+  options: TranslationOptions
+): Promise<SegmentScore[]> => {
+  const provider = getProvider(options.provider.providerId);
+  const locales = options.locales ?? [];
+  const languageLabel = findLocale(locales, targetLanguage).promptLabel;
+  const sourceLabel = options.sourceLanguage ? findLocale(locales, options.sourceLanguage).promptLabel : 'the source language';
+  const units = pairs.map((pair, index) => ({
+    id: index,
+    text: `[${index}]\nSOURCE: ${pair.source}\nTRANSLATION: ${pair.translation}`,
+  }));
+  const chunks = groupIntoChunks(units, chunkBudget(provider.limits, provider.capabilities));
+  const scores: SegmentScore[] = [];
+
+  // A failed chunk only leaves its segments unscored
+  await runWithConcurrency(chunks, options.provider.concurrency, async chunk => {
+    const content = chunk.map(unit => unit.text).join('\n\n');
+    const glossaryInstructions = buildGlossaryInstructions(
+      options.glossary,
+      targetLanguage,
+      chunk.map(unit => pairs[unit.id].source).join('\n')
+    );
+    const prompt = `
+      You are reviewing translations from ${sourceLabel} into ${languageLabel}.
+      For every numbered pair below, rate from 0 to 100 how faithfully and fluently the translation renders the source,
+      and list its problems. Issue types:
+      omission (source content is missing), addition (content that is not in the source),
+      terminology (wrong or inconsistent terms), mistranslation (meaning changed), fluency (unnatural or ungrammatical).
+      Placeholders like {{HTML_ELEMENT_0}} stand for markup; ignore them.
+      The translations were asked to follow this style:
+      ${buildStyleInstructions(options.style)}
+      ${glossaryInstructions}
+      Answer with JSON only, one object per pair, like:
+      [{"id": 0, "score": 92, "issues": [{"type": "omission", "note": "drops the second clause"}]}]
+
+      ${content}
+    `;
+    try {
+      const response = await sendRequest(
+        { text: content, prompt, targetLanguage, sourceLanguage: options.sourceLanguage, isTitle: false },
+        options
+      );
+      scores.push(...parseJudgeResponse(response, pairs, chunk.map(unit => unit.id)));
+    } catch (error) {
+      console.error('Quality judge failed:', error);
+    }
+  });
+
+  return scores;
+};
+
+// Score a post's translated segments and decide whether it may go live
+export const estimateQuality = async (
+  pairs: SegmentPair[],
+  targetLanguage: string,
+  options: TranslationOptions,
+  threshold = QUALITY_THRESHOLD
+): Promise<QualityEstimate> => {
+  const provider = getProvider(options.provider.providerId);
+  const method = provider.capabilities.prompts ? 'judge' : 'back-translation';
+  const candidates = pairs.filter(pair => stripPlaceholders(pair.source));
+  const scores = candidates.length === 0 ? [] : method === 'judge'
+    ? await scoreWithJudge(candidates, targetLanguage, options)
+    : await scoreBackTranslations(candidates, targetLanguage, options);
+  if (candidates.length > 0 && scores.length === 0) {
+    throw new Error('No segment could be scored');
+  }
+
+  // Glossary violations are already in the translation report, checked as
+  // each segment was translated, so only the engine's findings are added here
+  const issues = scores.flatMap(segment => segment.issues);
+
+  const weightOf = (index: number) => Math.max(1, stripPlaceholders(candidates[index].source).length);
+  const totalWeight = scores.reduce((sum, segment) => sum + weightOf(segment.index), 0);
+  const score = totalWeight === 0
+    ? 100
+    : Math.round(scores.reduce((sum, segment) => sum + segment.score * weightOf(segment.index), 0) / totalWeight);
+  const minimum = scores.reduce((lowest, segment) => Math.min(lowest, segment.score), 100);
+
+  return {
+    score,
+    minimum,
+    method,
+    issues,
+    scored: scores.length,
+    flagged: score < threshold || minimum < SEGMENT_FLOOR,
+  };
+};
@@ -0,0 +1,151 @@
+// Concurrency and rate limiting for translation jobs. One scheduler is shared
+// by every post and chunk of a job, so limits hold across the whole batch.
+
+import { sleep } from './utils';
+
+export type SchedulerSettings = {
+  // Requests in flight at the same time, across all keys
+  concurrency: number;
+  // Budgets enforced separately for every API key
+  requestsPerMinute: number;
+  tokensPerMinute: number;
+};
+
+type TokenBucket = {
+  // Milliseconds to wait until `amount` tokens are available
+  waitTime: (amount: number) => number;
+  take: (amount: number) => void;
+};
+
+const MINUTE = 60000;
+
+// Characters that usually take a whole token each (CJK ideographs, kana, hangul)
+const WIDE_CHARACTERS = /[\u1100-\u11ff\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af\uf900-\ufaff]/g;
+// Letters of other non-Latin scripts, about two per token
+const NON_LATIN_CHARACTERS = /[^\s\u0020-\u024f\u1e00-\u1eff\u2000-\u206f]/g;
+
+// Rough token count used for budgeting: Latin text is about four characters
+// per token, other scripts take far more tokens for the same length
+export const estimateTokens = (text: string): number => {
+  const wide = text.match(WIDE_CHARACTERS)?.length ?? 0;
+  const nonLatin = (text.match(NON_LATIN_CHARACTERS)?.length ?? 0) - wide;
+  const latin = text.length - wide - nonLatin;
+  return Math.ceil(wide + nonLatin / 2 + latin / 4);
+};
+
+// Classic token bucket, refilled continuously up to `capacity` per minute
+const createTokenBucket = (capacity: number): TokenBucket => {
+  let tokens = capacity;
+  let updatedAt = Date.now();
+
+  const refill = () => {
+    const now = Date.now();
+    tokens = Math.min(capacity, tokens + ((now - updatedAt) * capacity) / MINUTE);
+    updatedAt = now;
+  };
+
+  return {
+    waitTime: (amount) => {
+      refill();
+      // Requests larger than the whole budget are let through once it is full
+      const needed = Math.min(amount, capacity) - tokens;
+      return needed <= 0 ? 0 : Math.ceil((needed * MINUTE) / capacity);
+    },
+    take: (amount) => {
+      refill();
+      tokens -= Math.min(amount, capacity);
+    },
+  };
+};
+
+export type JobScheduler = {
+  // Run a request once a concurrency slot and the key's budgets allow it;
+  // a request still waiting when `signal` is aborted never runs
+  schedule: <T>(apiKey: string, tokens: number, task: () => Promise<T>, signal?: AbortSignal) => Promise<T>;
+  // Keys sorted by how soon they can take a request of this size
+  orderKeys: (apiKeys: string[], tokens: number) => string[];
+};
+
+export const createJobScheduler = (settings: SchedulerSettings): JobScheduler => {
+  const buckets = new Map<string, { requests: TokenBucket; tokens: TokenBucket }>();
+  const waiting: Array<() => void> = [];
+  let running = 0;
+
+  const bucketsFor = (apiKey: string) => {
+    let keyBuckets = buckets.get(apiKey);
+    if (!keyBuckets) {
+      keyBuckets = {
+        requests: createTokenBucket(settings.requestsPerMinute),
+        tokens: createTokenBucket(settings.tokensPerMinute),
+      };
+      buckets.set(apiKey, keyBuckets);
+    }
+    return keyBuckets;
+  };
+
+  const acquireSlot = async () => {
+    if (running >= settings.concurrency) {
+      await new Promise<void>(resolve => waiting.push(resolve));
+    }
+    running++;
+  };
+
+  const releaseSlot = () => {
+    running--;
+    waiting.shift()?.();
+  };
+
+  const waitTimeFor = (apiKey: string, tokens: number) => {
+    const keyBuckets = bucketsFor(apiKey);
+    return Math.max(keyBuckets.requests.waitTime(1), keyBuckets.tokens.waitTime(tokens));
+  };
+
+  const acquireBudget = async (apiKey: string, tokens: number, signal?: AbortSignal) => {
+    let wait: number;
+    while ((wait = waitTimeFor(apiKey, tokens)) > 0) {
+      await sleep(wait, signal);
+    }
+    const keyBuckets = bucketsFor(apiKey);
+    keyBuckets.requests.take(1);
+    keyBuckets.tokens.take(tokens);
+  };
+
+  return {
+    schedule: async (apiKey, tokens, task, signal) => {
+      signal?.throwIfAborted();
+      await acquireBudget(apiKey, tokens, signal);
+      await acquireSlot();
+      try {
+        signal?.throwIfAborted();
+        return await task();
+      } finally {
+        releaseSlot();
+      }
+    },
+    orderKeys: (apiKeys, tokens) =>
+      apiKeys
+        .map((apiKey, index) => ({ apiKey, index, wait: waitTimeFor(apiKey, tokens) }))
+        .sort((a, b) => a.wait - b.wait || a.index - b.index)
+        .map(({ apiKey }) => apiKey),
+  };
+};
+
+// Run `worker` over `items` with at most `limit` in flight, keeping result order
+export const runWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const lane = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, lane));
+  return results;
+};
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { formatSegments, parsePartialSegments, parseSegments, SegmentUnit } from './segmentProtocol';
+
+const chunk: SegmentUnit[] = [
+  { id: 3, text: 'Hello {{HTML_ELEMENT_0}}world{{HTML_ELEMENT_1}}' },
+  { id: 7, text: 'Goodbye' },
+];
+
+const errorOf = (result: ReturnType<typeof parseSegments>) => ('error' in result ? result.error : null);
+const translationsOf = (result: ReturnType<typeof parseSegments>) => ('translations' in result ? result.translations : null);
+
+describe('json protocol', () => {
+  it('round-trips its own format', () => {
+    const result = parseSegments(formatSegments(chunk, 'json'), chunk, 'json');
+    expect(translationsOf(result)).toEqual(new Map(chunk.map(({ id, text }) => [id, text])));
+  });
+
+  it('accepts any order and text around the object', () => {
+    const response = 'Sure!\n```json\n{"segments": [{"id": 7, "text": "Adiós"}, {"id": 3, "text": "Hola"}]}\n```';
+    expect(translationsOf(parseSegments(response, chunk, 'json'))).toEqual(new Map([[7, 'Adiós'], [3, 'Hola']]));
+  });
+
+  it.each([
+    ['no object', 'I cannot help with that', 'no JSON object'],
+    ['invalid JSON', '{"segments": [', 'no JSON object'],
+    ['a wrong shape', '{"segments": [{"id": "3", "text": "Hola"}]}', 'segment schema'],
+    ['an unknown id', '{"segments": [{"id": 3, "text": "Hola"}, {"id": 7, "text": "Adiós"}, {"id": 9, "text": "x"}]}', 'segment 9, which was not sent'],
+    ['a duplicate id', '{"segments": [{"id": 3, "text": "Hola"}, {"id": 3, "text": "Hola"}]}', 'more than once'],
+    ['a missing id', '{"segments": [{"id": 3, "text": "Hola"}]}', 'missing segment(s) 7'],
+    ['an empty text', '{"segments": [{"id": 3, "text": "Hola"}, {"id": 7, "text": " "}]}', 'Segment 7 came back empty'],
+    ['a broken marker', '{"segments": [{"id": 3, "text": "Hola"}, {"id": 7, "text": "Adiós {{SEGMENT_8}"}]}', 'broken marker'],
+  ])('rejects %s', (_, response, error) => {
+    expect(errorOf(parseSegments(response, chunk, 'json'))).toContain(error);
+  });
+});
+
+describe('markers protocol', () => {
+  it('round-trips its own format', () => {
+    const result = parseSegments(formatSegments(chunk, 'markers'), chunk, 'markers');
+    expect(translationsOf(result)).toEqual(new Map(chunk.map(({ id, text }) => [id, text])));
+  });
+
+  it('accepts a lone segment without its marker', () => {
+    const single = [chunk[1]];
+    expect(translationsOf(parseSegments(' Adiós\n', single, 'markers'))).toEqual(new Map([[7, 'Adiós']]));
+  });
+
+  it.each([
+    ['a missing marker', '{{SEGMENT_3}}\nHola'],
+    ['a mangled marker', '{{SEGMENT_3}}\nHola\n{{SEGMENT_7}\nAdiós'],
+    ['a marker cut off at the end', '{{SEGMENT_3}}\nHola\n{{SEGMENT_7}}\nAdiós {{SEGM'],
+    ['an empty segment', '{{SEGMENT_3}}\nHola\n{{SEGMENT_7}}\n'],
+  ])('rejects %s', (_, response) => {
+    expect(errorOf(parseSegments(response, chunk, 'markers'))).not.toBeNull();
+  });
+});
+
+describe('parsePartialSegments', () => {
+  it('reads segments of an unfinished JSON answer', () => {
+    const partial = '{"segments": [{"id": 3, "text": "Hola"}, {"id": 7, "text": "Adi\\u00';
+    expect(parsePartialSegments(partial, chunk, 'json')).toEqual(new Map([[3, 'Hola'], [7, 'Adi']]));
+  });
+
+  it('drops a marker cut off at the end of the stream', () => {
+    const partial = '{{SEGMENT_3}}\nHola\n{{SEGME';
+    expect(parsePartialSegments(partial, chunk, 'markers')).toEqual(new Map([[3, 'Hola']]));
+  });
+});
@@ -0,0 +1,178 @@
+import { z } from 'zod';
+import { JsonSchema } from './providers';
+
+// How the segments of one request travel to the engine and back. Prompt-based
+// engines get a JSON object of {id, text} segments and must answer with the
+// same shape, enforced by a response schema where the engine supports one.
+// Engines that only translate text get marker lines ({{SEGMENT_0}}) instead.
+export type SegmentProtocol = 'json' | 'markers';
+
+// A piece of text sent to the provider, identified by a job-wide id
+export type SegmentUnit = {
+  id: number;
+  text: string;
+};
+
+export type SegmentParseResult = { translations: Map<number, string> } | { error: string };
+
+export const segmentProtocolFor = (prompts: boolean): SegmentProtocol => (prompts ? 'json' : 'markers');
+
+// Given to the model as {{format}}, right before the content
+export const SEGMENT_FORMAT_RULES: Record<SegmentProtocol, string> = {
+  json: `The content is a JSON object whose "segments" array holds the text to translate, one {"id", "text"} entry per segment.
+Answer with a JSON object of the same shape and nothing else: every id exactly once and unchanged, with the translation of its text.
+Never merge, split or reorder segments, and leave no text empty.`,
+  markers: `The content is split into segments, each introduced by a marker line like {{SEGMENT_0}}.
+Keep every marker exactly as it is, on its own line and in the same order, and translate only the text after it.
+Return only the translated content:`,
+};
+
+// Response schema for engines that can constrain their output
+export const SEGMENT_RESPONSE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    segments: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'integer' },
+          text: { type: 'string' },
+        },
+        required: ['id', 'text'],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ['segments'],
+  additionalProperties: false,
+};
+
+const segmentResponse = z.object({
+  segments: z.array(z.object({
+    id: z.number().int(),
+    text: z.string(),
+  })),
+});
+
+const SEGMENT_MARKER_REGEX = /\{\{SEGMENT_(\d+)\}\}/;
+const PLACEHOLDER_REGEX = /\{\{[A-Z_]+_\d+\}\}/g;
+
+// What a cut-off or mangled answer leaves of a marker ("{{SEGMENT", "{{SEGMENT_2}"),
+// or any token cut off at the very end
+const MARKER_FRAGMENT_REGEX = /\{\{\s*segment[_ ]?\d*\s*\}?\}?|\{\s*segment[_ ]?\d+\s*\}\}?|\{\{[A-Z_\d]*\}?$/i;
+
+// A translated segment must say something when its source does
+const hasWords = (text: string) => /\p{L}|\p{N}/u.test(text.replace(PLACEHOLDER_REGEX, ''));
+
+// Why the translation of one segment can't be trusted, null when it can
+const segmentProblem = (id: number, source: string, text: string): string | null => {
+  if (!text.trim() && hasWords(source)) return `Segment ${id} came back empty`;
+  const fragment = text.match(MARKER_FRAGMENT_REGEX);
+  if (fragment) return `Segment ${id} contains a broken marker: ${fragment[0]}`;
+  return null;
+};
+
+// The content of one request
+export const formatSegments = (chunk: SegmentUnit[], protocol: SegmentProtocol): string =>
+  protocol === 'json'
+    // One segment per line keeps the request readable and its token count low
+    ? `{"segments": [\n${chunk.map(({ id, text }) => JSON.stringify({ id, text })).join(',\n')}\n]}`
+    : chunk.map(segment => `{{SEGMENT_${segment.id}}}\n${segment.text}`).join('\n\n');
+
+const parseJsonResponse = (response: string, chunk: SegmentUnit[]): SegmentParseResult => {
+  // Chatter or a code fence around the object is tolerated, the object itself is not negotiable
+  const start = response.indexOf('{');
+  const end = response.lastIndexOf('}');
+  if (start === -1 || end < start) return { error: 'The response holds no JSON object' };
+
+  let data: unknown;
+  try {
+    data = JSON.parse(response.slice(start, end + 1));
+  } catch {
+    return { error: 'The response is not valid JSON' };
+  }
+  const parsed = segmentResponse.safeParse(data);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    return { error: `The response does not match the segment schema: ${issue.path.join('.') || 'response'} ${issue.message}` };
+  }
+
+  const sources = new Map(chunk.map(segment => [segment.id, segment.text]));
+  const translations = new Map<number, string>();
+  for (const { id, text } of parsed.data.segments) {
+    if (!sources.has(id)) return { error: `The response has segment ${id}, which was not sent` };
+    if (translations.has(id)) return { error: `The response has segment ${id} more than once` };
+    const problem = segmentProblem(id, sources.get(id)!, text);
+    if (problem) return { error: problem };
+    translations.set(id, text.trim());
+  }
+
+  const missing = chunk.filter(segment => !translations.has(segment.id));
+  if (missing.length > 0) {
+    return { error: `The response is missing segment(s) ${missing.map(segment => segment.id).join(', ')}` };
+  }
+  return { translations };
+};
+
+const parseMarkerResponse = (response: string, chunk: SegmentUnit[]): SegmentParseResult => {
+  // Only complete markers split the answer; anything less is left in the text
+  const parts = response.split(SEGMENT_MARKER_REGEX);
+  const translations = new Map<number, string>();
+
+  // A lone segment may come back without its marker
+  if (parts.length === 1 && chunk.length === 1) {
+    translations.set(chunk[0].id, response.trim());
+  }
+  for (let i = 1; i < parts.length; i += 2) {
+    translations.set(Number(parts[i]), parts[i + 1].trim());
+  }
+
+  const missing = chunk.filter(segment => !translations.has(segment.id));
+  if (missing.length > 0 || translations.size !== chunk.length) {
+    return { error: `Segment markers were not preserved (expected ${chunk.length}, got ${translations.size})` };
+  }
+  for (const segment of chunk) {
+    const problem = segmentProblem(segment.id, segment.text, translations.get(segment.id)!);
+    if (problem) return { error: problem };
+  }
+  return { translations };
+};
+
+// Translations by segment id, or why the response can't be trusted. Every id
+// sent must come back exactly once; ids are what tie a translation to its
+// place in the source, so order doesn't matter.
+export const parseSegments = (response: string, chunk: SegmentUnit[], protocol: SegmentProtocol): SegmentParseResult =>
+  protocol === 'json' ? parseJsonResponse(response, chunk) : parseMarkerResponse(response, chunk);
+
+// "id": n, "text": "... with the string possibly still open
+const PARTIAL_JSON_SEGMENT_REGEX = /"id"\s*:\s*(\d+)\s*,\s*"text"\s*:\s*"((?:[^"\\]|\\.)*)/g;
+
+// Text of every segment that has started to arrive in a partial response, for live previews
+export const parsePartialSegments = (partial: string, chunk: SegmentUnit[], protocol: SegmentProtocol): Map<number, string> => {
+  const translations = new Map<number, string>();
+
+  if (protocol === 'json') {
+    const ids = new Set(chunk.map(segment => segment.id));
+    for (const [, id, raw] of partial.matchAll(PARTIAL_JSON_SEGMENT_REGEX)) {
+      if (!ids.has(Number(id))) continue;
+      try {
+        // An escape cut off at the end of the stream isn't text yet
+        translations.set(Number(id), JSON.parse(`"${raw.replace(/\\(u[0-9a-fA-F]{0,3})?$/, '')}"`).trim());
+      } catch {
+        // Unparseable so far; the next update will have more
+      }
+    }
+    return translations;
+  }
+
+  // A marker cut off at the end of the stream isn't text yet
+  const parts = partial.replace(/\{\{[A-Z_\d]*\}?$/, '').split(SEGMENT_MARKER_REGEX);
+  if (parts.length === 1 && chunk.length === 1) {
+    translations.set(chunk[0].id, parts[0].trim());
+  }
+  for (let i = 1; i < parts.length; i += 2) {
+    translations.set(Number(parts[i]), parts[i + 1].trim());
+  }
+  return translations;
+};
@@ -0,0 +1,162 @@
+// Sizing of translation requests. Segments (one block of text each) are
+// grouped into chunks that fit a provider's budget; a segment too large for
+// one request is cut at sentence boundaries, or at word boundaries as a last
+// resort, and its pieces are joined again once translated.
+
+import { ProviderCapabilities, ProviderLimits } from './providers';
+import { estimateTokens } from './scheduler';
+
+export type ChunkBudget = {
+  // Estimated tokens of source text per request
+  tokens: number;
+  // Characters of source text per request
+  chars: number;
+};
+
+// A segment cut into pieces that each fit the budget. `separators[i]` is the
+// source text between piece i and i + 1, usually a space or a line break.
+export type SplitSegment = {
+  pieces: string[];
+  separators: string[];
+};
+
+// Room left in the input for instructions, glossary terms and segment markers
+const PROMPT_RESERVE_CHARS = 4000;
+
+// A translation can need more tokens than its source, e.g. from English into
+// a CJK script, and the whole answer has to fit in the output limit
+const OUTPUT_EXPANSION = 2;
+
+// Sentence ends: Latin-style punctuation followed by whitespace and what looks
+// like the start of a new sentence, or full-width and other scripts' stops
+const SENTENCE_END_REGEX = /[.!?…]+["'”’»)\]]*\s+(?=[\p{Lu}\p{Lo}\d"'“‘«([{])|[。！？؟۔।]+["'”’」』)\]]*\s*/gu;
+
+// Smallest pieces a sentence is ever cut into: placeholders stay whole
+const ATOM_REGEX = /\{\{[A-Z_]+_\d+\}\}|\s+|[^\s]/gu;
+
+export const chunkBudget = (limits: ProviderLimits, capabilities: ProviderCapabilities): ChunkBudget => ({
+  tokens: Math.max(1, Math.min(limits.chunkTokens, Math.floor(limits.maxOutputTokens / OUTPUT_EXPANSION))),
+  chars: Math.max(1, limits.maxInputChars - (capabilities.prompts ? PROMPT_RESERVE_CHARS : 0)),
+});
+
+export const fitsBudget = (text: string, budget: ChunkBudget): boolean =>
+  text.length <= budget.chars && estimateTokens(text) <= budget.tokens;
+
+// Split text after each sentence end (or each line, for preformatted text);
+// every part keeps its trailing whitespace so the parts add up to the text
+const splitSentences = (text: string, byLine: boolean): string[] => {
+  const regex = byLine ? /\n+/g : SENTENCE_END_REGEX;
+  const parts: string[] = [];
+  let start = 0;
+  for (const match of text.matchAll(regex)) {
+    const end = match.index! + match[0].length;
+    if (end > start && end < text.length) {
+      parts.push(text.slice(start, end));
+      start = end;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts;
+};
+
+// Cut a single oversized sentence into the longest prefixes that fit,
+// preferring to cut after whitespace
+const splitWords = (text: string, budget: ChunkBudget): string[] => {
+  const parts: string[] = [];
+  let atoms: string[] = text.match(ATOM_REGEX) ?? [];
+
+  while (atoms.length > 0 && !fitsBudget(atoms.join(''), budget)) {
+    // Fitting is monotonic in length, so binary search the longest prefix
+    let low = 1;
+    let high = atoms.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (fitsBudget(atoms.slice(0, middle).join(''), budget)) low = middle;
+      else high = middle - 1;
+    }
+
+    let cut = low;
+    for (let i = low - 1; i > 0; i--) {
+      if (/^\s+$/.test(atoms[i])) {
+        cut = i + 1;
+        break;
+      }
+    }
+    parts.push(atoms.slice(0, cut).join(''));
+    atoms = atoms.slice(cut);
+  }
+
+  if (atoms.length > 0) parts.push(atoms.join(''));
+  return parts;
+};
+
+// Cut a segment into as few pieces as fit the budget, keeping whole sentences
+// together wherever possible
+export const splitToBudget = (text: string, budget: ChunkBudget, preserveWhitespace = false): SplitSegment => {
+  if (fitsBudget(text, budget)) return { pieces: [text], separators: [] };
+
+  const sentences = splitSentences(text, preserveWhitespace)
+    .flatMap(sentence => fitsBudget(sentence, budget) ? [sentence] : splitWords(sentence, budget));
+
+  // Greedily pack sentences into pieces
+  const raw: string[] = [];
+  sentences.forEach(sentence => {
+    const last = raw.length - 1;
+    if (last >= 0 && fitsBudget(raw[last] + sentence, budget)) raw[last] += sentence;
+    else raw.push(sentence);
+  });
+
+  // Whitespace between pieces is kept aside instead of being sent
+  const pieces: string[] = [];
+  const separators: string[] = [];
+  raw.forEach(piece => {
+    const content = piece.trimEnd();
+    const trailing = piece.slice(content.length);
+    if (!content.trim() && pieces.length > 0) {
+      separators[separators.length - 1] += piece;
+      return;
+    }
+    pieces.push(content);
+    separators.push(trailing);
+  });
+  separators.pop();
+
+  return { pieces, separators };
+};
+
+// Scripts written without spaces between sentences
+const NO_SPACE_LANGUAGES = new Set(['zh', 'ja', 'th', 'lo', 'km', 'my']);
+
+export const writesWithoutSpaces = (language: string): boolean =>
+  NO_SPACE_LANGUAGES.has(language.split('-')[0].toLowerCase());
+
+// Put translated pieces back together. Line breaks are kept; otherwise the
+// target language decides whether sentences are separated by a space.
+export const joinPieces = (pieces: string[], separators: string[], targetLanguage: string): string => {
+  const noSpaces = writesWithoutSpaces(targetLanguage);
+  return pieces.reduce((joined, piece, index) => {
+    if (index === 0) return piece;
+    const separator = separators[index - 1] ?? '';
+    return joined + (separator.includes('\n') ? separator : noSpaces ? '' : ' ') + piece;
+  }, '');
+};
+
+// Group consecutive segments into chunks that fit in one request
+export const groupIntoChunks = <T extends { text: string }>(segments: T[], budget: ChunkBudget): T[][] => {
+  const chunks: T[][] = [];
+  let current: T[] = [];
+  let currentText = '';
+
+  segments.forEach(segment => {
+    if (current.length > 0 && !fitsBudget(currentText + segment.text, budget)) {
+      chunks.push(current);
+      current = [];
+      currentText = '';
+    }
+    current.push(segment);
+    currentText += segment.text;
+  });
+
+  if (current.length > 0) chunks.push(current);
+  return chunks;
+};
@@ -0,0 +1,135 @@
+// SEO titles and descriptions kept by the SEO plugins a site may use. They are
+// read from the source post, translated like any other text and written back
+// under the same plugin's meta keys. WordPress only exposes meta registered for
+// its REST API, which most SEO plugins (Yoast included) don't do on their own.
+
+import { decodeEntities } from './htmlParser';
+
+export type SeoPlugin = 'yoast' | 'rankmath' | 'aioseo' | 'seopress';
+
+export type SeoField = 'title' | 'description' | 'ogTitle' | 'ogDescription';
+
+export type SeoMeta = {
+  plugin: SeoPlugin;
+  fields: Partial<Record<SeoField, string>>;
+};
+
+export const SEO_FIELD_LABELS: Record<SeoField, string> = {
+  title: 'SEO title',
+  description: 'Meta description',
+  ogTitle: 'Social title',
+  ogDescription: 'Social description',
+};
+
+// Lengths search results and social previews show before cutting text off
+export const SEO_FIELD_LIMITS: Record<SeoField, number> = {
+  title: 60,
+  description: 160,
+  ogTitle: 90,
+  ogDescription: 200,
+};
+
+const SEO_META_KEYS: Record<SeoPlugin, Record<SeoField, string>> = {
+  yoast: {
+    title: '_yoast_wpseo_title',
+    description: '_yoast_wpseo_metadesc',
+    ogTitle: '_yoast_wpseo_opengraph-title',
+    ogDescription: '_yoast_wpseo_opengraph-description',
+  },
+  rankmath: {
+    title: 'rank_math_title',
+    description: 'rank_math_description',
+    ogTitle: 'rank_math_facebook_title',
+    ogDescription: 'rank_math_facebook_description',
+  },
+  aioseo: {
+    title: '_aioseo_title',
+    description: '_aioseo_description',
+    ogTitle: '_aioseo_og_title',
+    ogDescription: '_aioseo_og_description',
+  },
+  seopress: {
+    title: '_seopress_titles_title',
+    description: '_seopress_titles_desc',
+    ogTitle: '_seopress_social_fb_title',
+    ogDescription: '_seopress_social_fb_desc',
+  },
+};
+
+// Variables each plugin fills in when rendering, e.g. %%sitename%%
+const VARIABLE_PATTERNS: Record<SeoPlugin, string> = {
+  yoast: '%%[\\w-]+%%',
+  rankmath: '%[\\w-]+(?:\\([^)]*\\))?%',
+  aioseo: '#[a-z]+(?:_[a-z]+)*',
+  seopress: '%%[\\w-]+%%',
+};
+
+const PLUGINS = Object.keys(SEO_META_KEYS) as SeoPlugin[];
+
+const nonEmptyFields = (entries: Array<[SeoField, unknown]>): SeoMeta['fields'] =>
+  Object.fromEntries(entries.filter(([, value]) => typeof value === 'string' && value.trim()));
+
+// SEO fields of a post, from the first plugin that has any in the REST meta.
+// Rendered values (Yoast's yoast_head_json) are never used: their variables
+// are already filled in, so they can't be written back as templates.
+export const readSeoMeta = (meta: Record<string, unknown> = {}): SeoMeta | null => {
+  for (const plugin of PLUGINS) {
+    const keys = SEO_META_KEYS[plugin];
+    const fields = nonEmptyFields((Object.keys(keys) as SeoField[]).map(field => [field, meta[keys[field]]]));
+    if (Object.keys(fields).length > 0) return { plugin, fields };
+  }
+  return null;
+};
+
+// Meta to publish the fields under, for the plugin they came from
+export const toSeoMetaKeys = (seo: SeoMeta): Record<string, string> =>
+  Object.fromEntries(
+    (Object.keys(seo.fields) as SeoField[]).map(field => [SEO_META_KEYS[seo.plugin][field], seo.fields[field]!])
+  );
+
+// Fields missing from the meta a created post came back with. WordPress
+// silently drops meta keys that aren't registered for its REST API.
+export const unstoredSeoFields = (seo: SeoMeta, stored: Record<string, unknown> = {}): SeoField[] =>
+  (Object.keys(seo.fields) as SeoField[]).filter(field => stored[SEO_META_KEYS[seo.plugin][field]] !== seo.fields[field]);
+
+// SEO values are plain text. As HTML, with every variable hidden in a comment,
+// they go through the same pipeline as the post and keep their variables.
+export const seoToHtml = (value: string, plugin: SeoPlugin): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(new RegExp(VARIABLE_PATTERNS[plugin], 'g'), variable => `<!--${variable}-->`);
+
+export const seoFromHtml = (html: string): string =>
+  decodeEntities(html.replace(/<!--([\s\S]*?)-->/g, '$1'));
+
+// Length of what the plugin shows around its variables
+export const visibleLength = (value: string, plugin: SeoPlugin): number =>
+  value.replace(new RegExp(VARIABLE_PATTERNS[plugin], 'g'), '').trim().length;
+
+// Longest a translated field may be; sources already over the limit may
+// keep their length
+export const seoFieldLimit = (field: SeoField, source: string, plugin: SeoPlugin): number =>
+  Math.max(SEO_FIELD_LIMITS[field], visibleLength(source, plugin));
+
+// Cut a field down to its limit by shortening its longest text run, at a word
+// boundary unless the language is written without spaces
+export const fitSeoField = (value: string, plugin: SeoPlugin, limit: number, noSpaces: boolean): string => {
+  const excess = visibleLength(value, plugin) - limit;
+  if (excess <= 0) return value;
+
+  // Text runs at even indexes, variables at odd ones
+  const parts = value.split(new RegExp(`(${VARIABLE_PATTERNS[plugin]})`));
+  const longest = parts.reduce((best, part, index) =>
+    index % 2 === 0 && part.length > parts[best].length ? index : best, 0);
+  // Space before a following variable stays
+  const trailing = parts[longest].match(/\s*$/)![0];
+  const keep = parts[longest].length - trailing.length - excess - 1;
+  if (keep <= 0) return value;
+
+  const cut = parts[longest].slice(0, keep);
+  const atWord = noSpaces ? cut : cut.replace(/\s+\S*$/, '');
+  parts[longest] = `${(atWord || cut).trimEnd()}…${trailing}`;
+  return parts.join('');
+};
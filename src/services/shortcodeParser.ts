@@ -0,0 +1,147 @@
+// Tokenizer for WordPress shortcodes ([caption id="1"]...[/caption],
+// [gallery ids="1,2"]). Shortcode tags are kept out of translation like HTML
+// tags; only attributes registered as human text are translated.
+
+export type ShortcodeAttribute = {
+  name: string;
+  value: string;
+  // Offsets of the raw value in the source
+  valueStart: number;
+  valueEnd: number;
+  quote: '"' | "'" | '';
+};
+
+export type ShortcodeTag = {
+  name: string;
+  closing: boolean;
+  selfClosing: boolean;
+  // [[name]] prints the tag literally, so nothing in it is translated
+  escaped: boolean;
+  attributes: ShortcodeAttribute[];
+  start: number;
+  end: number;
+};
+
+// Attribute names, by shortcode name, whose values are human text
+export type ShortcodeTextAttributes = Record<string, string[]>;
+
+const STORAGE_KEY = 'translate-tales.shortcode-attributes';
+
+export const DEFAULT_SHORTCODE_TEXT_ATTRIBUTES: ShortcodeTextAttributes = {
+  caption: ['caption'],
+  wp_caption: ['caption'],
+  button: ['text', 'title'],
+  toggle: ['title'],
+  tab: ['title'],
+  accordion: ['title'],
+};
+
+// Core shortcodes, recognized even without attributes or a closing tag
+const KNOWN_SHORTCODES = new Set(['audio', 'caption', 'embed', 'gallery', 'playlist', 'video', 'wp_caption']);
+
+// Shortcodes whose enclosed content is not text and moves as a single unit
+export const RAW_SHORTCODES = new Set(['code', 'embed', 'latex', 'php', 'raw', 'sourcecode', 'video', 'audio']);
+
+// Same bracket structure as WordPress' get_shortcode_regex(); attributes may not contain brackets
+const SHORTCODE_REGEX = /\[(\[?)(\/?)([a-zA-Z][\w-]*)((?:[^[\]"'/]|"[^"]*"|'[^']*'|\/(?!\]))*)(\/?)\](\]?)/g;
+const ATTRIBUTE_REGEX = /([\w-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"']+))|"[^"]*"|'[^']*'|\S+/g;
+
+export const loadShortcodeTextAttributes = (): ShortcodeTextAttributes => {
+  const raw = localStorage.getItem(STORAGE_KEY);
+  if (!raw) return DEFAULT_SHORTCODE_TEXT_ATTRIBUTES;
+
+  try {
+    return JSON.parse(raw);
+  } catch (error) {
+    console.error('Corrupted shortcode attributes in storage:', error);
+    return DEFAULT_SHORTCODE_TEXT_ATTRIBUTES;
+  }
+};
+
+export const saveShortcodeTextAttributes = (attributes: ShortcodeTextAttributes): void => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(attributes));
+};
+
+export const resetShortcodeTextAttributes = (): void => {
+  localStorage.removeItem(STORAGE_KEY);
+};
+
+const parseAttributes = (raw: string, offset: number): ShortcodeAttribute[] => {
+  const attributes: ShortcodeAttribute[] = [];
+  let match: RegExpExecArray | null;
+  ATTRIBUTE_REGEX.lastIndex = 0;
+
+  while ((match = ATTRIBUTE_REGEX.exec(raw)) !== null) {
+    const [whole, name, doubleQuoted, singleQuoted, unquoted] = match;
+    const value = doubleQuoted ?? singleQuoted ?? unquoted;
+    // Positional values like [embed "url"] have no name and are never text
+    if (name === undefined || value === undefined) continue;
+
+    const quote = doubleQuoted !== undefined ? '"' : singleQuoted !== undefined ? "'" : '';
+    const valueEnd = offset + match.index + whole.length - quote.length;
+    attributes.push({ name: name.toLowerCase(), value, valueStart: valueEnd - value.length, valueEnd, quote });
+  }
+
+  return attributes;
+};
+
+// Shortcode tags in source[start, end). WordPress only expands registered
+// shortcodes, which can't be listed from here, so a bare [word] counts only
+// when it looks like one; otherwise it is ordinary bracketed prose.
+export const findShortcodeTags = (source: string, start = 0, end = source.length): ShortcodeTag[] => {
+  const text = source.slice(start, end);
+  const tags: ShortcodeTag[] = [];
+  let match: RegExpExecArray | null;
+  SHORTCODE_REGEX.lastIndex = 0;
+
+  while ((match = SHORTCODE_REGEX.exec(text)) !== null) {
+    const [whole, openEscape, closing, rawName, rawAttributes, selfClosing, closeEscape] = match;
+    const name = rawName.toLowerCase();
+    const escaped = openEscape === '[' && closeEscape === ']';
+    const tagStart = start + match.index;
+    const tagEnd = tagStart + whole.length;
+
+    const looksLikeShortcode = escaped
+      || closing === '/'
+      || selfClosing === '/'
+      || rawAttributes.includes('=')
+      || /[_-]/.test(name)
+      || KNOWN_SHORTCODES.has(name)
+      || findClosingShortcode(source, name, tagEnd) !== null;
+    if (!looksLikeShortcode) continue;
+
+    // A lone extra bracket on one side is text, not part of the tag
+    const tagOffset = openEscape && !escaped ? 1 : 0;
+    tags.push({
+      name,
+      closing: closing === '/',
+      selfClosing: selfClosing === '/',
+      escaped,
+      attributes: escaped ? [] : parseAttributes(rawAttributes, tagStart + 1 + openEscape.length + closing.length + rawName.length),
+      start: tagStart + tagOffset,
+      end: closeEscape && !escaped ? tagEnd - 1 : tagEnd,
+    });
+  }
+
+  return tags;
+};
+
+// The [/name] closing a shortcode opened before `from`
+export const findClosingShortcode = (source: string, name: string, from: number): { start: number, end: number } | null => {
+  const closeRegex = new RegExp(`\\[\\/${name.replace(/-/g, '\\-')}\\]`, 'ig');
+  closeRegex.lastIndex = from;
+  const close = closeRegex.exec(source);
+  return close ? { start: close.index, end: close.index + close[0].length } : null;
+};
+
+// Attribute values can't contain brackets or their own quote, and values
+// without quotes get some so translated text with spaces stays one value
+export const encodeShortcodeAttribute = (value: string, quote: ShortcodeAttribute['quote']): string => {
+  const encoded = value
+    .replace(/&/g, '&amp;')
+    .replace(/\[/g, '&#91;')
+    .replace(/\]/g, '&#93;');
+  if (quote === "'") return encoded.replace(/'/g, '&#039;');
+  const doubleQuoted = encoded.replace(/"/g, '&quot;');
+  return quote === '' ? `"${doubleQuoted}"` : doubleQuoted;
+};
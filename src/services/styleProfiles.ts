@@ -0,0 +1,139 @@
+// Named style profiles: register, audience, a free-form style guide and
+// example translations. Every language has a default profile, which a job can
+// override; profiles and defaults are kept in localStorage.
+
+import { matchesLanguage } from './localeCatalog';
+import { Formality } from './providers';
+import { hash, loadJson } from './utils';
+
+export type StyleExample = {
+  source: string;
+  translation: string;
+};
+
+export type StyleProfile = {
+  id: string;
+  name: string;
+  formality: Formality;
+  // Who the translation is written for, e.g. "developers new to the product"
+  audience: string;
+  guide: string;
+  examples: StyleExample[];
+};
+
+// Default profile id by language tag; a bare language also covers its variants
+export type StyleAssignments = Record<string, string>;
+
+const PROFILES_KEY = 'translate-tales.style-profiles';
+const ASSIGNMENTS_KEY = 'translate-tales.style-assignments';
+
+export const NEUTRAL_PROFILE_ID = 'neutral';
+
+export const DEFAULT_PROFILES: StyleProfile[] = [
+  {
+    id: NEUTRAL_PROFILE_ID,
+    name: 'Neutral',
+    formality: 'default',
+    audience: '',
+    guide: 'Maintain the original meaning, tone, and style.',
+    examples: [],
+  },
+  {
+    id: 'formal',
+    name: 'Formal',
+    formality: 'formal',
+    audience: 'Professional readers',
+    guide: 'Use a polite, professional register. Avoid slang, contractions and exclamation marks.',
+    examples: [],
+  },
+  {
+    id: 'marketing',
+    name: 'Marketing',
+    formality: 'informal',
+    audience: 'Prospective customers',
+    guide: 'Lively and persuasive. Address the reader directly, prefer short sentences and idiomatic phrasing over literal renderings.',
+    examples: [],
+  },
+  {
+    id: 'technical',
+    name: 'Technical',
+    formality: 'default',
+    audience: 'Developers and technical users',
+    guide: 'Precise and plain. Keep terminology consistent, keep product names, commands and code identifiers in English.',
+    examples: [],
+  },
+];
+
+export const loadProfiles = (): StyleProfile[] =>
+  loadJson(PROFILES_KEY, DEFAULT_PROFILES, value => Array.isArray(value) && value.length > 0);
+
+export const saveProfiles = (profiles: StyleProfile[]): void => {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+};
+
+export const resetProfiles = (): void => {
+  localStorage.removeItem(PROFILES_KEY);
+};
+
+export const loadAssignments = (): StyleAssignments =>
+  loadJson(ASSIGNMENTS_KEY, {}, value => typeof value === 'object' && value !== null && !Array.isArray(value));
+
+export const saveAssignments = (assignments: StyleAssignments): void => {
+  localStorage.setItem(ASSIGNMENTS_KEY, JSON.stringify(assignments));
+};
+
+export const createProfile = (name: string): StyleProfile => ({
+  id: crypto.randomUUID(),
+  name,
+  formality: 'default',
+  audience: '',
+  guide: '',
+  examples: [],
+});
+
+// Profile a language uses by default: its own assignment, then the one of its
+// bare language (de for de-AT), then the neutral profile
+export const defaultProfileFor = (
+  profiles: StyleProfile[],
+  assignments: StyleAssignments,
+  language: string
+): StyleProfile => {
+  const assigned = Object.keys(assignments)
+    .filter(tag => matchesLanguage(language, tag))
+    .sort((a, b) => b.length - a.length)
+    .map(tag => profiles.find(profile => profile.id === assignments[tag]))
+    .find(Boolean);
+  return assigned ?? profiles.find(profile => profile.id === NEUTRAL_PROFILE_ID) ?? profiles[0];
+};
+
+const FORMALITY_INSTRUCTIONS: Record<Formality, string> = {
+  default: '',
+  formal: 'Address the reader formally, using the polite forms of address and verb forms of the target language where it has them (e.g. "Sie" in German, "usted" in Spanish, "vous" in French).',
+  informal: 'Address the reader informally, using the familiar forms of address and verb forms of the target language where it has them (e.g. "du" in German, "tú" in Spanish, "tu" in French).',
+};
+
+// Prompt lines describing the style a translation has to follow
+export const buildStyleInstructions = (profile: StyleProfile | undefined): string => {
+  if (!profile) return 'Maintain the original meaning, tone, and style.';
+  const lines: string[] = [];
+
+  if (profile.guide.trim()) lines.push(profile.guide.trim());
+  if (FORMALITY_INSTRUCTIONS[profile.formality]) lines.push(FORMALITY_INSTRUCTIONS[profile.formality]);
+  if (profile.audience.trim()) lines.push(`Write for this audience: ${profile.audience.trim()}.`);
+
+  const examples = profile.examples.filter(example => example.source.trim() && example.translation.trim());
+  if (examples.length > 0) {
+    lines.push('Examples of the expected style:');
+    examples.forEach(example => lines.push(`- "${example.source.trim()}" → "${example.translation.trim()}"`));
+  }
+
+  return lines.join('\n');
+};
+
+// Changes whenever anything that shapes the output changes, so translations
+// remembered under an older version of a profile aren't reused
+export const profileVersion = (profile: StyleProfile | undefined): string => {
+  if (!profile) return '-';
+  const { formality, audience, guide, examples } = profile;
+  return `${profile.id}.${hash(JSON.stringify([formality, audience, guide, examples])).toString(36)}`;
+};
@@ -0,0 +1,181 @@
+// Translation memory: previously translated segments stored in IndexedDB,
+// keyed by normalized source text, target language and provider/prompt version.
+
+export type MemoryEntry = {
+  key: string;
+  source: string;
+  translation: string;
+  targetLanguage: string;
+  // Provider, model and prompt version that produced the translation
+  version: string;
+  createdAt: string;
+  updatedAt: string;
+  hits: number;
+};
+
+const DB_NAME = 'translate-tales';
+const DB_VERSION = 1;
+const STORE = 'translationMemory';
+
+const PLACEHOLDER_REGEX = /\{\{HTML_ELEMENT_\d+\}\}/g;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'key' });
+        store.createIndex('targetLanguage', 'targetLanguage');
+        store.createIndex('updatedAt', 'updatedAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => Promise<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORE, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+  const result = await run(transaction.objectStore(STORE));
+  await done;
+  return result;
+};
+
+// A segment in memory form: whitespace normalized and placeholders
+// renumbered from 0, so the same paragraph matches across posts
+export type MemorySegment = {
+  normalized: string;
+  placeholders: string[];
+};
+
+export const toMemorySegment = (text: string): MemorySegment => {
+  const placeholders: string[] = [];
+  const normalized = text
+    .normalize('NFC')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(PLACEHOLDER_REGEX, placeholder => {
+      let index = placeholders.indexOf(placeholder);
+      if (index === -1) {
+        index = placeholders.length;
+        placeholders.push(placeholder);
+      }
+      return `{{HTML_ELEMENT_${index}}}`;
+    });
+  return { normalized, placeholders };
+};
+
+// Renumber a stored translation's placeholders to the ones of the current segment
+export const fromMemoryTranslation = (translation: string, placeholders: string[]): string =>
+  translation.replace(/\{\{HTML_ELEMENT_(\d+)\}\}/g, (match, index) => placeholders[Number(index)] ?? match);
+
+// Inverse of fromMemoryTranslation, used when storing a fresh translation
+export const toMemoryTranslation = (translation: string, placeholders: string[]): string =>
+  translation.replace(PLACEHOLDER_REGEX, placeholder => {
+    const index = placeholders.indexOf(placeholder);
+    return index === -1 ? placeholder : `{{HTML_ELEMENT_${index}}}`;
+  });
+
+export const memoryKey = (normalized: string, targetLanguage: string, version: string): string =>
+  `${version}\u0000${targetLanguage}\u0000${normalized}`;
+
+// Read-only: looking entries up, e.g. for an estimate, doesn't count as using them
+export const lookupSegments = async (keys: string[]): Promise<Map<string, MemoryEntry>> => {
+  const found = new Map<string, MemoryEntry>();
+  if (keys.length === 0) return found;
+
+  try {
+    await withStore('readonly', async store => {
+      for (const key of new Set(keys)) {
+        const entry = await promisify<MemoryEntry | undefined>(store.get(key));
+        if (entry) found.set(key, entry);
+      }
+    });
+  } catch (error) {
+    // Memory is an optimization; never fail a translation because of it
+    console.warn('Translation memory lookup failed:', error);
+  }
+
+  return found;
+};
+
+// Count a hit for every use of an entry's translation in a translated post
+export const recordHits = async (keys: string[]): Promise<void> => {
+  if (keys.length === 0) return;
+  const uses = new Map<string, number>();
+  keys.forEach(key => uses.set(key, (uses.get(key) ?? 0) + 1));
+
+  try {
+    await withStore('readwrite', async store => {
+      for (const [key, count] of uses) {
+        const entry = await promisify<MemoryEntry | undefined>(store.get(key));
+        if (entry) store.put({ ...entry, hits: entry.hits + count });
+      }
+    });
+  } catch (error) {
+    console.warn('Failed to record translation memory hits:', error);
+  }
+};
+
+export const storeSegments = async (
+  entries: Array<Pick<MemoryEntry, 'key' | 'source' | 'translation' | 'targetLanguage' | 'version'>>
+): Promise<void> => {
+  if (entries.length === 0) return;
+  const now = new Date().toISOString();
+
+  try {
+    await withStore('readwrite', async store => {
+      entries.forEach(entry => {
+        store.put({ ...entry, createdAt: now, updatedAt: now, hits: 0 });
+      });
+    });
+  } catch (error) {
+    console.warn('Failed to store segments in translation memory:', error);
+  }
+};
+
+export const listEntries = async (): Promise<MemoryEntry[]> => {
+  const entries = await withStore('readonly', store => promisify<MemoryEntry[]>(store.getAll()));
+  return entries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const updateEntry = async (key: string, translation: string): Promise<void> => {
+  await withStore('readwrite', async store => {
+    const entry = await promisify<MemoryEntry | undefined>(store.get(key));
+    if (!entry) throw new Error('Translation memory entry not found');
+    store.put({ ...entry, translation, updatedAt: new Date().toISOString() });
+  });
+};
+
+export const deleteEntry = async (key: string): Promise<void> => {
+  await withStore('readwrite', async store => {
+    await promisify(store.delete(key));
+  });
+};
+
+export const clearMemory = async (): Promise<void> => {
+  await withStore('readwrite', async store => {
+    await promisify(store.clear());
+  });
+};
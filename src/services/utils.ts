@@ -0,0 +1,42 @@
+// Small helpers shared by the services
+
+// FNV-1a: the same input always gives the same number
+export const hash = (text: string): number => {
+  let value = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    value ^= text.charCodeAt(i);
+    value = Math.imul(value, 0x01000193);
+  }
+  return value >>> 0;
+};
+
+// Resolves after `ms`, or rejects with the abort reason as soon as `signal` is aborted
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(signal.reason);
+    return;
+  }
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal!.reason);
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// A stored JSON value, or `fallback` when it is missing, corrupt or fails `isValid`
+export const loadJson = <T,>(key: string, fallback: T, isValid: (value: unknown) => boolean = () => true): T => {
+  const raw = localStorage.getItem(key);
+  if (!raw) return fallback;
+
+  try {
+    const stored = JSON.parse(raw);
+    return isValid(stored) ? stored : fallback;
+  } catch (error) {
+    console.error(`Corrupted ${key} in storage:`, error);
+    return fallback;
+  }
+};
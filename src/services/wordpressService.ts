@@ -1,5 +1,6 @@
 
 import { toast } from 'sonner';
+import { requestSignal } from './providers/abort';
 import { WPPostData } from '@/context/WordPressContext';
 
 export type WordPressCredentials = {
@@ -10,6 +11,25 @@ export type WordPressCredentials = {
 
 export type Post = WPPostData;
 
+// Drafts are created for translations that still need a human look
+export type PostStatus = 'publish' | 'draft';
+
+// Where a post lives, as far as links to it are concerned
+export type PostLink = {
+  id: number;
+  slug: string;
+  link: string;
+};
+
+// A post just created, with the meta WordPress actually stored
+export type PublishedPost = PostLink & {
+  meta: Record<string, unknown>;
+};
+
+// Slug a translation is created under, so it can be found again by its source post
+export const translatedSlug = (originalSlug: string, languageCode: string): string =>
+  `${originalSlug}-${languageCode.toLowerCase()}`;
+
 export const validateSiteUrl = (url: string): string => {
   // Remove trailing slash if present
   let formattedUrl = url.endsWith('/') ? url.slice(0, -1) : url;
@@ -66,7 +86,9 @@ export const fetchPosts = async (credentials: WordPressCredentials): Promise<Pos
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), 60000); // 60 second timeout
     
-    const response = await fetch(`${formattedUrl}/wp-json/wp/v2/posts?per_page=100&order=desc&orderby=date`, {
+    // context=edit returns the raw post source including block delimiters,
+    // which is what must be translated and published back
+    const response = await fetch(`${formattedUrl}/wp-json/wp/v2/posts?per_page=100&order=desc&orderby=date&context=edit`, {
       method: 'GET',
       headers: {
         'Authorization': 'Basic ' + btoa(`${username}:${appPassword}`)
@@ -103,10 +125,14 @@ export const publishTranslatedPost = async (
   translatedTitle: string,
   translatedContent: string,
   language_code: string,
+  status: PostStatus = 'publish',
+  extraMeta: Record<string, string> = {},
   featuredImageUrl?: string,
-  metaDescription?: string,
-  originalPermalink?: string
-): Promise<number> => {
+  translatedExcerpt?: string,
+  originalPermalink?: string,
+  // Cancels the job; nothing is created once it is aborted
+  signal?: AbortSignal
+): Promise<PublishedPost> => {
   const { siteUrl, username, appPassword } = credentials;
   const formattedUrl = validateSiteUrl(siteUrl);
   
@@ -118,7 +144,7 @@ export const publishTranslatedPost = async (
       headers: {
         'Authorization': 'Basic ' + btoa(`${username}:${appPassword}`)
       },
-      signal: AbortSignal.timeout(30000)
+      signal: requestSignal(30000, signal)
     });
     
     if (!originalPostResponse.ok) {
@@ -136,25 +162,24 @@ export const publishTranslatedPost = async (
     
     // Set language for Polylang
     meta.polylang_current_language = language_code;
-    
-    // If meta description is provided, add it for SEO plugins
-    if (metaDescription) {
-      meta._yoast_wpseo_metadesc = metaDescription; // Yoast SEO
-      meta._aioseo_description = metaDescription; // All in One SEO
-      meta._seopress_titles_desc = metaDescription; // SEOPress
-    }
+    Object.assign(meta, extraMeta);
     
     // Create the translated post
     const postData: Record<string, any> = {
       title: translatedTitle,
       content: translatedContent,
-      status: 'publish',
-      slug: `${originalPost.slug}-${language_code.toLowerCase()}`, // Append language code to slug
+      status,
+      slug: translatedSlug(originalPost.slug, language_code),
       categories: originalPost.categories,
       tags: originalPost.tags,
       meta: meta
     };
     
+    // Without an excerpt WordPress generates one from the translated content
+    if (translatedExcerpt) {
+      postData.excerpt = translatedExcerpt;
+    }
+    
     // Add featured image if available
     if (featuredImageUrl) {
       // Try to find the media item ID from the URL
@@ -166,7 +191,7 @@ export const publishTranslatedPost = async (
             headers: {
               'Authorization': 'Basic ' + btoa(`${username}:${appPassword}`)
             },
-            signal: AbortSignal.timeout(15000)
+            signal: requestSignal(15000, signal)
           }
         );
         
@@ -199,11 +224,12 @@ export const publishTranslatedPost = async (
     // For Polylang REST specific header
     headers['X-Polylang-Language'] = language_code;
     
+    signal?.throwIfAborted();
     const createResponse = await fetch(`${formattedUrl}/wp-json/wp/v2/posts`, {
       method: 'POST',
       headers: headers,
       body: JSON.stringify(postData),
-      signal: AbortSignal.timeout(60000)
+      signal: requestSignal(60000, signal)
     });
     
     if (!createResponse.ok) {
@@ -213,10 +239,95 @@ export const publishTranslatedPost = async (
     
     const newPost = await createResponse.json();
     console.log(`Successfully created post with ID: ${newPost.id}`);
-    return newPost.id;
+    return { id: newPost.id, slug: newPost.slug, link: newPost.link, meta: newPost.meta ?? {} };
   } catch (error) {
+    // A cancelled job reports what was left unpublished itself
+    if (signal?.aborted) throw error;
     console.error('Failed to publish translated post:', error);
     toast.error('Failed to publish translated post');
     throw error;
   }
 };
+
+/**
+ * Finds a post with the given status by its slug; null when there is none.
+ * Published only by default, so links never lead readers to drafts
+ */
+export const findPostBySlug = async (
+  credentials: WordPressCredentials,
+  slug: string,
+  status: PostStatus = 'publish',
+  signal?: AbortSignal
+): Promise<PublishedPost | null> => {
+  const { siteUrl, username, appPassword } = credentials;
+  const formattedUrl = validateSiteUrl(siteUrl);
+  
+  const response = await fetch(
+    `${formattedUrl}/wp-json/wp/v2/posts?slug=${encodeURIComponent(slug)}&status=${status}&_fields=id,slug,link,meta`,
+    {
+      method: 'GET',
+      headers: {
+        'Authorization': 'Basic ' + btoa(`${username}:${appPassword}`)
+      },
+      signal: requestSignal(15000, signal)
+    }
+  );
+  
+  if (!response.ok) {
+    throw new Error(`Failed to look up post "${slug}": ${response.status}`);
+  }
+  
+  const posts: PublishedPost[] = await response.json();
+  return posts[0] ? { ...posts[0], meta: posts[0].meta ?? {} } : null;
+};
+
+/**
+ * Fetches the raw source of a post's content, block delimiters included
+ */
+export const fetchPostSource = async (credentials: WordPressCredentials, postId: number, signal?: AbortSignal): Promise<string> => {
+  const { siteUrl, username, appPassword } = credentials;
+  const formattedUrl = validateSiteUrl(siteUrl);
+  
+  const response = await fetch(`${formattedUrl}/wp-json/wp/v2/posts/${postId}?context=edit&_fields=content`, {
+    method: 'GET',
+    headers: {
+      'Authorization': 'Basic ' + btoa(`${username}:${appPassword}`)
+    },
+    signal: requestSignal(30000, signal)
+  });
+  
+  if (!response.ok) {
+    throw new Error(`Failed to fetch post ${postId}: ${response.status}`);
+  }
+  
+  const post = await response.json();
+  return post.content.raw ?? post.content.rendered;
+};
+
+/**
+ * Replaces the content of an existing post, leaving everything else as it is
+ */
+export const updatePostContent = async (
+  credentials: WordPressCredentials,
+  postId: number,
+  content: string,
+  signal?: AbortSignal
+): Promise<void> => {
+  const { siteUrl, username, appPassword } = credentials;
+  const formattedUrl = validateSiteUrl(siteUrl);
+  
+  signal?.throwIfAborted();
+  const response = await fetch(`${formattedUrl}/wp-json/wp/v2/posts/${postId}`, {
+    method: 'POST',
+    headers: {
+      'Authorization': 'Basic ' + btoa(`${username}:${appPassword}`),
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({ content }),
+    signal: requestSignal(60000, signal)
+  });
+  
+  if (!response.ok) {
+    throw new Error(`Failed to update post ${postId}: ${response.status} - ${await response.text()}`);
+  }
+};